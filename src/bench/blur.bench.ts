@@ -0,0 +1,247 @@
+/**
+ * Benchmark: BlurEngine Gaussian stack vs. the previous per-pixel disc average
+ *
+ * Run with: npm run bench:blur [-- <size>]
+ *
+ * - Speed: both implementations on a size×size shadow layer (default 1200)
+ *   whose blur radius ramps from 1px (top) to 10px (bottom); each is
+ *   warmed up on a small layer first, the Gaussian stack reports the
+ *   median of RUNS runs
+ * - Accuracy: both compared against an exact per-pixel 2D Gaussian
+ *   (σ = radius / 2) on a smaller crop, reported as mean/max alpha error
+ */
+
+import { BlurEngine } from '../lib/algorithms/BlurEngine';
+import { createPixelBuffer } from '../lib/utils/imageData';
+import { decodePixelBuffer, encodePixelBuffer } from '../lib/utils/color';
+import { clamp } from '../lib/utils/math';
+import type { PixelBuffer } from '../lib/core/types';
+
+const MIN_RADIUS = 1;
+const MAX_RADIUS = 10;
+const ACCURACY_SIZE = 240;
+const RUNS = 5;
+
+/**
+ * Synthetic shadow layer: black, with a few hard-edged shapes of varying alpha
+ */
+function createShadowLayer(size: number): PixelBuffer {
+  const layer = createPixelBuffer(size, size);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const u = x / size;
+      const v = y / size;
+      const inBar = u > 0.2 && u < 0.45;
+      const inDisc = (u - 0.7) ** 2 + (v - 0.5) ** 2 < 0.04;
+      const inStripe = Math.floor(u * 40) % 2 === 0 && v > 0.8;
+
+      if (inBar || inDisc || inStripe) {
+        layer.data[(y * size + x) * 4 + 3] = inDisc ? 200 : 255;
+      }
+    }
+  }
+
+  return layer;
+}
+
+/**
+ * Per-pixel radius map: linear ramp from MIN_RADIUS (top) to MAX_RADIUS (bottom)
+ */
+function createRadii(size: number): Float32Array {
+  const radii = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    const r = MIN_RADIUS + (MAX_RADIUS - MIN_RADIUS) * (y / (size - 1));
+    radii.fill(r, y * size, (y + 1) * size);
+  }
+  return radii;
+}
+
+/**
+ * Previous BlurEngine implementation, kept verbatim apart from taking a
+ * radius map: per-pixel disc average with an object returned per pixel
+ * and the progress-timer check in the inner loop
+ */
+function legacyDiscBlur(layer: PixelBuffer, radii: Float32Array): PixelBuffer {
+  const width = layer.width;
+  const height = layer.height;
+  const result = createPixelBuffer(width, height);
+  let lastLogTime = performance.now();
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const blurred = legacyBlurAtPixel(layer, x, y, radii[idx]);
+
+      const pixelIdx = idx * 4;
+      result.data[pixelIdx] = blurred.r;
+      result.data[pixelIdx + 1] = blurred.g;
+      result.data[pixelIdx + 2] = blurred.b;
+      result.data[pixelIdx + 3] = blurred.a;
+
+      const now = performance.now();
+      if (now - lastLogTime > 2000) {
+        lastLogTime = now;
+      }
+    }
+  }
+
+  return result;
+}
+
+function legacyBlurAtPixel(
+  imageData: PixelBuffer,
+  cx: number,
+  cy: number,
+  radius: number
+): { r: number; g: number; b: number; a: number } {
+  if (radius < 0.5) {
+    const idx = (cy * imageData.width + cx) * 4;
+    return {
+      r: imageData.data[idx],
+      g: imageData.data[idx + 1],
+      b: imageData.data[idx + 2],
+      a: imageData.data[idx + 3]
+    };
+  }
+
+  const width = imageData.width;
+  const height = imageData.height;
+  const pixels = imageData.data;
+  let r = 0, g = 0, b = 0, a = 0, count = 0;
+  const intRadius = Math.ceil(radius);
+
+  for (let dy = -intRadius; dy <= intRadius; dy++) {
+    for (let dx = -intRadius; dx <= intRadius; dx++) {
+      const x = cx + dx;
+      const y = cy + dy;
+      if (x < 0 || x >= width || y < 0 || y >= height) continue;
+
+      const distSq = dx * dx + dy * dy;
+      if (distSq > radius * radius) continue;
+
+      const idx = (y * width + x) * 4;
+      r += pixels[idx];
+      g += pixels[idx + 1];
+      b += pixels[idx + 2];
+      a += pixels[idx + 3];
+      count++;
+    }
+  }
+
+  if (count > 0) {
+    r /= count;
+    g /= count;
+    b /= count;
+    a /= count;
+  }
+
+  return {
+    r: clamp(Math.round(r), 0, 255),
+    g: clamp(Math.round(g), 0, 255),
+    b: clamp(Math.round(b), 0, 255),
+    a: clamp(Math.round(a), 0, 255)
+  };
+}
+
+/**
+ * Ground truth: exact 2D Gaussian per pixel (σ = radius / 2, ±3σ, edges clamped)
+ * Alpha only, since the synthetic layer is black
+ */
+function referenceGaussianAlpha(layer: PixelBuffer, radii: Float32Array): Float32Array {
+  const { width, height, data } = layer;
+  const result = new Float32Array(width * height);
+
+  for (let cy = 0; cy < height; cy++) {
+    for (let cx = 0; cx < width; cx++) {
+      const sigma = radii[cy * width + cx] / 2;
+      const half = Math.ceil(sigma * 3);
+      let sum = 0;
+      let weightSum = 0;
+
+      for (let dy = -half; dy <= half; dy++) {
+        for (let dx = -half; dx <= half; dx++) {
+          const x = Math.min(Math.max(cx + dx, 0), width - 1);
+          const y = Math.min(Math.max(cy + dy, 0), height - 1);
+          const w = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+          sum += data[(y * width + x) * 4 + 3] * w;
+          weightSum += w;
+        }
+      }
+
+      result[cy * width + cx] = sum / weightSum;
+    }
+  }
+
+  return result;
+}
+
+function alphaError(result: PixelBuffer, reference: Float32Array): { mean: number; max: number } {
+  let total = 0;
+  let max = 0;
+
+  for (let i = 0; i < reference.length; i++) {
+    const error = Math.abs(result.data[i * 4 + 3] - reference[i]);
+    total += error;
+    max = Math.max(max, error);
+  }
+
+  return { mean: total / reference.length, max };
+}
+
+function time(run: () => unknown): number {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function main(): void {
+  const size = Number(process.argv[2] ?? 1200);
+  const engine = new BlurEngine();
+
+  // BlurEngine logs its own progress; keep the report readable
+  const log = console.log;
+  console.log = () => {};
+
+  const smallLayer = createShadowLayer(ACCURACY_SIZE);
+  const smallRadii = createRadii(ACCURACY_SIZE);
+
+  // BlurEngine works on linear float layers (conversion not timed)
+  const smallLinear = decodePixelBuffer(smallLayer);
+
+  // Warm-up: let the JIT optimize both implementations
+  engine.applyVariableBlur(smallLinear, smallRadii);
+  legacyDiscBlur(smallLayer, smallRadii);
+
+  const layer = createShadowLayer(size);
+  const linear = decodePixelBuffer(layer);
+  const radii = createRadii(size);
+  const fastRuns: number[] = [];
+  for (let i = 0; i < RUNS; i++) {
+    fastRuns.push(time(() => engine.applyVariableBlur(linear, radii)));
+  }
+  const fast = median(fastRuns);
+  const legacy = time(() => legacyDiscBlur(layer, radii));
+
+  const reference = referenceGaussianAlpha(smallLayer, smallRadii);
+  const fastError = alphaError(encodePixelBuffer(engine.applyVariableBlur(smallLinear, smallRadii)), reference);
+  const legacyError = alphaError(legacyDiscBlur(smallLayer, smallRadii), reference);
+
+  console.log = log;
+
+  console.log(`Variable blur, ${size}x${size}, radius ${MIN_RADIUS}-${MAX_RADIUS}px`);
+  console.log(`  Gaussian stack:  ${fast.toFixed(0).padStart(7)} ms (median of ${RUNS})`);
+  console.log(`  Legacy disc:     ${legacy.toFixed(0).padStart(7)} ms`);
+  console.log(`  Speedup:         ${(legacy / fast).toFixed(1)}x`);
+  console.log('');
+  console.log(`Alpha error vs exact Gaussian (${ACCURACY_SIZE}x${ACCURACY_SIZE}, 0-255 scale)`);
+  console.log(`  Gaussian stack:  mean ${fastError.mean.toFixed(2)}, max ${fastError.max.toFixed(1)}`);
+  console.log(`  Legacy disc:     mean ${legacyError.mean.toFixed(2)}, max ${legacyError.max.toFixed(1)}`);
+}
+
+main();
@@ -0,0 +1,109 @@
+/**
+ * Benchmark: tiled vs. untiled generate()
+ *
+ * Run with: npm run bench:tiling [-- <size>]
+ *
+ * - Renders a chair-like subject on a size×size image (default 900)
+ *   in one piece and in small tiles (2 MB budget, 128px tiles)
+ * - Light angles off the 45° diagonals, an area light and a contact
+ *   shadow, where crops used to land on a different sampling grid
+ * - Tiles must join without seams: any difference in shadowOnly or
+ *   composite is reported and fails the run (exit code 1)
+ */
+
+import { ShadowGenerator } from '../lib/core/ShadowGenerator';
+import { createPixelBuffer } from '../lib/utils/imageData';
+import type { PixelBuffer, ShadowConfig } from '../lib/core/types';
+
+const TILING = { memoryBudget: 2, maxTileSize: 128 };
+
+const CASES: Array<{ name: string; config: Partial<ShadowConfig> }> = [
+  { name: 'angle 10°', config: { lightAngle: 10 } },
+  { name: 'angle 100°', config: { lightAngle: 100 } },
+  { name: 'angle 200°', config: { lightAngle: 200 } },
+  { name: 'area light', config: { lightAngle: 100, lightSize: 5 } },
+  { name: 'contact shadow', config: { lightAngle: 33, contactShadow: {} } }
+];
+
+/**
+ * Background gradient and a chair (seat, back, four legs) at odd offsets
+ */
+function createImages(size: number): { foreground: PixelBuffer; background: PixelBuffer } {
+  const background = createPixelBuffer(size, size);
+  for (let i = 0; i < size * size; i++) {
+    background.data.set([120 + (i % size) / 20, 160, 200 - i / size / 10, 255], i * 4);
+  }
+
+  const foreground = createPixelBuffer(size, size);
+  const s = size / 900;
+  const paint = (x0: number, y0: number, x1: number, y1: number) => {
+    for (let y = Math.round(y0 * s); y < Math.round(y1 * s); y++) {
+      for (let x = Math.round(x0 * s); x < Math.round(x1 * s); x++) {
+        foreground.data.set([120, 80, 40, 255], (y * size + x) * 4);
+      }
+    }
+  };
+  paint(401, 301, 543, 319);
+  paint(401, 181, 417, 301);
+  paint(403, 319, 411, 451);
+  paint(533, 319, 541, 447);
+  paint(431, 319, 437, 431);
+  paint(507, 319, 513, 433);
+
+  return { foreground, background };
+}
+
+function maxDifference(a: PixelBuffer, b: PixelBuffer): number {
+  let max = 0;
+  for (let i = 0; i < a.data.length; i++) {
+    max = Math.max(max, Math.abs(a.data[i] - b.data[i]));
+  }
+  return max;
+}
+
+function time<T>(run: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - start };
+}
+
+function main(): void {
+  const size = Number(process.argv[2] ?? 900);
+  const generator = new ShadowGenerator();
+  const images = createImages(size);
+  const report: string[] = [];
+  let failed = false;
+
+  // The generator logs every step; keep the report readable
+  const log = console.log;
+  const warn = console.warn;
+  console.log = () => {};
+  console.warn = () => {};
+
+  for (const { name, config } of CASES) {
+    const fullConfig = { ...generator.getDefaultConfig(), maxShadowDistance: 100, ...config };
+    const untiled = time(() => generator.generate(images, fullConfig));
+    const tiled = time(() => generator.generate(images, { ...fullConfig, tiling: TILING }));
+
+    const shadow = maxDifference(untiled.result.shadowOnly, tiled.result.shadowOnly);
+    const composite = maxDifference(untiled.result.composite, tiled.result.composite);
+    if (shadow > 0 || composite > 0) failed = true;
+
+    report.push(
+      `  ${name.padEnd(16)} untiled ${untiled.ms.toFixed(0).padStart(6)} ms, ` +
+        `tiled ${tiled.ms.toFixed(0).padStart(6)} ms, ` +
+        `max difference: shadow ${shadow}, composite ${composite}`
+    );
+  }
+
+  console.log = log;
+  console.warn = warn;
+
+  console.log(`Tiled vs. untiled, ${size}x${size}, tiles of ${TILING.maxTileSize}px (0-255 scale)`);
+  report.forEach((line) => console.log(line));
+  console.log(failed ? 'FAILED: tiles differ from the untiled render' : 'OK: identical');
+
+  if (failed) process.exitCode = 1;
+}
+
+main();
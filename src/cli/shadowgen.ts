@@ -0,0 +1,555 @@
+/**
+ * shadowgen - Batch shadow generation from the command line
+ *
+ * Usage:
+ *   shadowgen render --fg <dir|file.png> --bg <background.png> --out <dir>
+ *                    [--angle 135] [--elevation 45] [--max-distance 150]
+ *                    [--light-size <degrees>] [--auto-light] [--jobs N] [--verbose]
+ *                    [--light angle,elevation[,intensity[,size]] ...] [--light-layers]
+ *                    [--point-light x,y,height[,intensity[,size]] ...]
+ *                    [--horizon <y> | --floor x1,y1,x2,y2,x3,y3,x4,y4]
+ *                    [--shadow-color <auto|#rrggbb>] [--blend-mode <mode>] [--16bit]
+ *                    [--contact-shadow opacity[,radius[,flatten]]]
+ *                    [--contact-tolerance <px>] [--contact x1,y1,x2,y2,... ...]
+ *                    [--place x,y[,scale[,rotation]]] [--flip x|y|xy]
+ *                    [--working-size <px> [--preview]] [--memory-budget <MB>]
+ *
+ * For every foreground PNG, writes <out>/<name>/shadow_only.png,
+ * mask_debug.png and composite.png (the same names the demo downloads),
+ * plus shadow_light<N>.png per light (and shadow_contact.png) with
+ * --light-layers. --16bit writes shadow_only, composite and the layers as
+ * 16-bit PNGs.
+ * --auto-light estimates the light from the background (explicit
+ * --angle / --elevation still win).
+ * --shadow-color auto tints shadows with the background's ambient light.
+ * --contact draws the contact line by hand (one polyline per option,
+ * e.g. one per foot) instead of detecting it.
+ * --place puts each foreground's center at x,y on the background (scaled,
+ * rotated clockwise, --flip mirrored) and renders at the background's
+ * size; without it the background is resized to the foreground.
+ * --working-size computes the shadow with the longest side scaled down to
+ * <px> and upsamples it to full size (--preview: write the outputs at the
+ * working size instead).
+ * --memory-budget processes the shadow region in tiles whose working
+ * buffers fit in <MB> megabytes each (for very large images; not with
+ * --16bit).
+ * Files are processed in parallel on worker threads; the process exits
+ * with code 1 if any file fails and 2 on invalid usage.
+ */
+
+import { Worker, isMainThread, parentPort } from 'node:worker_threads';
+import { parseArgs } from 'node:util';
+import { availableParallelism } from 'node:os';
+import { readdir, stat, mkdir } from 'node:fs/promises';
+import { basename, extname, join, resolve } from 'node:path';
+import { ShadowGenerator } from '../lib/core/ShadowGenerator';
+import { NodeImageProcessor } from '../lib/node/NodeImageProcessor';
+import { resizePixelBuffer } from '../lib/utils/imageData';
+import type {
+  BlendMode,
+  ForegroundTransform,
+  LightSource,
+  RGBColor,
+  ShadowConfig
+} from '../lib/core/types';
+
+/**
+ * One unit of work sent to a worker thread
+ */
+interface RenderJob {
+  foregroundPath: string;
+  backgroundPath: string;
+  outputDir: string;
+  config: ShadowConfig;
+  transform?: ForegroundTransform;
+  verbose: boolean;
+}
+
+/**
+ * Outcome of a single job, reported back to the main thread
+ */
+interface RenderOutcome {
+  foregroundPath: string;
+  ok: boolean;
+  seconds: number;
+  error?: string;
+}
+
+const BLEND_MODES: BlendMode[] = ['normal', 'multiply', 'linearBurn', 'softLight'];
+
+const USAGE = `Usage: shadowgen render --fg <dir|file.png> --bg <background.png> --out <dir>
+                        [--angle 135] [--elevation 45] [--max-distance 150]
+                        [--light-size <degrees>] [--auto-light] [--jobs N] [--verbose]
+                        [--light angle,elevation[,intensity[,size]] ...] [--light-layers]
+                        [--point-light x,y,height[,intensity[,size]] ...]
+                        [--horizon <y> | --floor x1,y1,x2,y2,x3,y3,x4,y4]
+                        [--shadow-color <auto|#rrggbb>] [--blend-mode <mode>] [--16bit]
+                        [--contact-shadow opacity[,radius[,flatten]]]
+                        [--contact-tolerance <px>] [--contact x1,y1,x2,y2,... ...]
+                        [--place x,y[,scale[,rotation]]] [--flip x|y|xy]
+                        [--working-size <px> [--preview]] [--memory-budget <MB>]
+
+Blend modes: ${BLEND_MODES.join(', ')} (default multiply)`;
+
+/**
+ * Worker thread: render one file per message
+ */
+function runWorker(): void {
+  const generator = new ShadowGenerator();
+  const io = new NodeImageProcessor();
+
+  parentPort!.on('message', async (job: RenderJob) => {
+    const start = performance.now();
+
+    // The pipeline logs every step; keep batch output readable
+    if (!job.verbose) {
+      console.log = () => {};
+    }
+
+    try {
+      const foreground = await io.loadFromFile(job.foregroundPath);
+      let background = await io.loadFromFile(job.backgroundPath);
+
+      // Same rule as the demo: match the foreground's dimensions, unless
+      // the foreground is placed on the background
+      if (
+        !job.transform &&
+        (background.width !== foreground.width || background.height !== foreground.height)
+      ) {
+        background = resizePixelBuffer(background, foreground.width, foreground.height);
+      }
+
+      const result = generator.generate(
+        { foreground, background, foregroundTransform: job.transform },
+        job.config
+      );
+
+      // --16bit: the float buffers (written as 16-bit PNGs) replace the 8-bit outputs
+      const outputs = result.linear ?? result;
+
+      await mkdir(job.outputDir, { recursive: true });
+      await io.saveToFile(join(job.outputDir, 'shadow_only.png'), outputs.shadowOnly);
+      await io.saveToFile(join(job.outputDir, 'mask_debug.png'), result.maskDebug);
+      await io.saveToFile(join(job.outputDir, 'composite.png'), outputs.composite);
+
+      for (const [i, layer] of (outputs.lightLayers ?? []).entries()) {
+        await io.saveToFile(join(job.outputDir, `shadow_light${i + 1}.png`), layer);
+      }
+      if (outputs.contactLayer) {
+        await io.saveToFile(join(job.outputDir, 'shadow_contact.png'), outputs.contactLayer);
+      }
+
+      reply({ foregroundPath: job.foregroundPath, ok: true, seconds: elapsed(start) });
+    } catch (error) {
+      reply({
+        foregroundPath: job.foregroundPath,
+        ok: false,
+        seconds: elapsed(start),
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+}
+
+function reply(outcome: RenderOutcome): void {
+  parentPort!.postMessage(outcome);
+}
+
+function elapsed(start: number): number {
+  return (performance.now() - start) / 1000;
+}
+
+/**
+ * Collect foreground PNGs from a directory (sorted) or a single file
+ */
+async function listForegrounds(path: string): Promise<string[]> {
+  const info = await stat(path);
+  if (info.isFile()) return [path];
+
+  const entries = await readdir(path);
+  return entries
+    .filter((name) => extname(name).toLowerCase() === '.png')
+    .sort()
+    .map((name) => join(path, name));
+}
+
+function parseNumber(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new UsageError(`--${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse --light "angle,elevation[,intensity[,size]]"
+ */
+function parseLight(value: string): LightSource {
+  const [angle, elevation, intensity, lightSize] = parseList(value, 'light', 'angle,elevation[,intensity[,size]]', 2);
+  return { angle, elevation, intensity, lightSize };
+}
+
+/**
+ * Parse --point-light "x,y,height[,intensity[,size]]"
+ */
+function parsePointLight(value: string): LightSource {
+  const [x, y, height, intensity, lightSize] = parseList(value, 'point-light', 'x,y,height[,intensity[,size]]', 3);
+  return { type: 'point', x, y, height, intensity, lightSize };
+}
+
+/**
+ * Parse --shadow-color "auto" or "#rrggbb"
+ */
+function parseShadowColor(value: string): RGBColor | 'auto' {
+  if (value === 'auto') return value;
+
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(value);
+  if (!match) {
+    throw new UsageError(`--shadow-color expects auto or #rrggbb, got "${value}"`);
+  }
+  return {
+    r: parseInt(match[1], 16),
+    g: parseInt(match[2], 16),
+    b: parseInt(match[3], 16)
+  };
+}
+
+/**
+ * Parse --place "x,y[,scale[,rotation]]" and --flip "x", "y" or "xy"
+ */
+function parsePlacement(value: string, flip: string | undefined): ForegroundTransform {
+  const [x, y, scale, rotation] = parseList(value, 'place', 'x,y[,scale[,rotation]]', 2);
+  if (scale !== undefined && scale <= 0) {
+    throw new UsageError(`--place scale must be positive, got "${value}"`);
+  }
+  if (flip !== undefined && !['x', 'y', 'xy', 'yx'].includes(flip)) {
+    throw new UsageError(`--flip must be x, y or xy, got "${flip}"`);
+  }
+
+  return {
+    x,
+    y,
+    scale,
+    rotation,
+    flipX: flip?.includes('x') ?? false,
+    flipY: flip?.includes('y') ?? false
+  };
+}
+
+/**
+ * Parse --contact "x1,y1,x2,y2,..." (a polyline of one or more points)
+ */
+function parseContact(value: string): Array<{ x: number; y: number }> {
+  const coords = parseList(value, 'contact', 'x1,y1,x2,y2,...', 2, Infinity);
+  if (coords.length % 2 !== 0) {
+    throw new UsageError(`--contact expects x,y pairs, got "${value}"`);
+  }
+
+  const polyline: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i < coords.length; i += 2) {
+    polyline.push({ x: coords[i], y: coords[i + 1] });
+  }
+  return polyline;
+}
+
+/**
+ * Split a comma-separated list of numbers: required fields first, then optional ones
+ */
+function parseList(
+  value: string,
+  name: string,
+  format: string,
+  required: number,
+  optional: number = 2
+): number[] {
+  const parts = value.split(',');
+  if (parts.length < required || parts.length > required + optional) {
+    throw new UsageError(`--${name} expects ${format}, got "${value}"`);
+  }
+
+  return parts.map((part) => {
+    const parsed = Number(part);
+    if (part.trim() === '' || !Number.isFinite(parsed)) {
+      throw new UsageError(`--${name} values must be numbers, got "${value}"`);
+    }
+    return parsed;
+  });
+}
+
+class UsageError extends Error {}
+
+const CLI_OPTIONS = {
+  fg: { type: 'string' },
+  bg: { type: 'string' },
+  out: { type: 'string' },
+  angle: { type: 'string' },
+  elevation: { type: 'string' },
+  'max-distance': { type: 'string' },
+  'light-size': { type: 'string' },
+  light: { type: 'string', multiple: true },
+  'point-light': { type: 'string', multiple: true },
+  horizon: { type: 'string' },
+  floor: { type: 'string' },
+  'shadow-color': { type: 'string' },
+  'blend-mode': { type: 'string' },
+  'contact-shadow': { type: 'string' },
+  'contact-tolerance': { type: 'string' },
+  contact: { type: 'string', multiple: true },
+  place: { type: 'string' },
+  flip: { type: 'string' },
+  'working-size': { type: 'string' },
+  preview: { type: 'boolean', default: false },
+  'memory-budget': { type: 'string' },
+  '16bit': { type: 'boolean', default: false },
+  'light-layers': { type: 'boolean', default: false },
+  'auto-light': { type: 'boolean', default: false },
+  jobs: { type: 'string' },
+  verbose: { type: 'boolean', default: false },
+  help: { type: 'boolean', short: 'h', default: false }
+} as const;
+
+/**
+ * Main thread: parse arguments, dispatch jobs to a worker pool, report
+ */
+async function runMain(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: CLI_OPTIONS
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (positionals[0] !== 'render' || !values.fg || !values.bg || !values.out) {
+    throw new UsageError('render, --fg, --bg and --out are required');
+  }
+
+  const generator = new ShadowGenerator();
+  let defaults = generator.getDefaultConfig();
+
+  if (values['auto-light']) {
+    const background = await new NodeImageProcessor().loadFromFile(resolve(values.bg));
+    const estimate = generator.estimateLight(background);
+    defaults = generator.getDefaultConfig(estimate);
+  }
+
+  const angle = parseNumber(values.angle, defaults.lightAngle, 'angle');
+  const elevation = parseNumber(values.elevation, defaults.lightElevation, 'elevation');
+  const config: ShadowConfig = {
+    ...generator.getDefaultConfig(angle, elevation),
+    maxShadowDistance: parseNumber(values['max-distance'], 150, 'max-distance')
+  };
+
+  if (values['light-size'] !== undefined) {
+    config.lightSize = parseNumber(values['light-size'], 0, 'light-size');
+  }
+
+  if (values.light || values['point-light']) {
+    config.lights = [
+      ...(values.light ?? []).map(parseLight),
+      ...(values['point-light'] ?? []).map(parsePointLight)
+    ];
+  }
+  config.includeLightLayers = values['light-layers'];
+  config.keepFloatBuffers = values['16bit'];
+
+  if (values.horizon !== undefined && values.floor !== undefined) {
+    throw new UsageError('--horizon and --floor are mutually exclusive');
+  }
+  if (values.horizon !== undefined) {
+    config.groundPlane = { horizonY: parseNumber(values.horizon, 0, 'horizon') };
+  }
+  if (values.floor !== undefined) {
+    // Far-left, far-right, near-right, near-left corners of a floor square
+    const coords = parseList(values.floor, 'floor', 'x1,y1,x2,y2,x3,y3,x4,y4', 8, 0);
+    config.groundPlane = {
+      floorPoints: [0, 2, 4, 6].map((i) => ({ x: coords[i], y: coords[i + 1] }))
+    };
+  }
+
+  if (values['shadow-color'] !== undefined) {
+    config.shadowColor = parseShadowColor(values['shadow-color']);
+  }
+
+  if (values['contact-shadow'] !== undefined) {
+    const [opacity, radius, flatten] = parseList(
+      values['contact-shadow'],
+      'contact-shadow',
+      'opacity[,radius[,flatten]]',
+      1
+    );
+    config.contactShadow = { opacity, radius, flatten };
+  }
+
+  if (values['contact-tolerance'] !== undefined) {
+    config.contactTolerance = parseNumber(values['contact-tolerance'], 0, 'contact-tolerance');
+  }
+  if (values.contact) {
+    config.manualContact = values.contact.map(parseContact);
+  }
+
+  const blendMode = values['blend-mode'];
+  if (blendMode !== undefined) {
+    if (!BLEND_MODES.includes(blendMode as BlendMode)) {
+      throw new UsageError(`--blend-mode must be one of ${BLEND_MODES.join(', ')}, got "${blendMode}"`);
+    }
+    config.blendMode = blendMode as BlendMode;
+  }
+
+  if (values.preview && values['working-size'] === undefined) {
+    throw new UsageError('--preview requires --working-size');
+  }
+  if (values['working-size'] !== undefined) {
+    config.workingResolution = {
+      maxDimension: parseNumber(values['working-size'], 0, 'working-size'),
+      output: values.preview ? 'working' : 'full'
+    };
+  }
+
+  if (values['memory-budget'] !== undefined) {
+    if (values['16bit']) {
+      throw new UsageError('--memory-budget cannot be combined with --16bit');
+    }
+    config.tiling = { memoryBudget: parseNumber(values['memory-budget'], 0, 'memory-budget') };
+  }
+
+  if (values.flip !== undefined && values.place === undefined) {
+    throw new UsageError('--flip requires --place');
+  }
+  const transform = values.place !== undefined
+    ? parsePlacement(values.place, values.flip)
+    : undefined;
+
+  const jobs = parseNumber(values.jobs, availableParallelism(), 'jobs');
+  if (!Number.isInteger(jobs) || jobs < 1) {
+    throw new UsageError(`--jobs must be a positive integer, got "${values.jobs}"`);
+  }
+
+  const foregrounds = await listForegrounds(resolve(values.fg));
+  if (foregrounds.length === 0) {
+    throw new UsageError(`No PNG files found in ${values.fg}`);
+  }
+
+  const jobCount = Math.min(foregrounds.length, jobs);
+
+  const queue: RenderJob[] = foregrounds.map((foregroundPath) => ({
+    foregroundPath,
+    backgroundPath: resolve(values.bg!),
+    outputDir: join(resolve(values.out!), basename(foregroundPath, extname(foregroundPath))),
+    config,
+    transform,
+    verbose: values.verbose ?? false
+  }));
+
+  console.log(`Rendering ${queue.length} file(s) with ${jobCount} worker(s)...`);
+
+  const outcomes = await runPool(queue, jobCount);
+  const failures = outcomes.filter((outcome) => !outcome.ok);
+
+  console.log('');
+  console.log(`Done: ${outcomes.length - failures.length} succeeded, ${failures.length} failed`);
+
+  for (const failure of failures) {
+    console.error(`  ✗ ${failure.foregroundPath}: ${failure.error}`);
+  }
+
+  return failures.length > 0 ? 1 : 0;
+}
+
+/**
+ * Process jobs on a fixed-size pool of worker threads
+ * (each worker re-runs this file with isMainThread = false)
+ */
+function runPool(queue: RenderJob[], size: number): Promise<RenderOutcome[]> {
+  const outcomes: RenderOutcome[] = [];
+  const total = queue.length;
+
+  return new Promise((resolvePool) => {
+    let active = size;
+
+    // Once the last worker is gone, anything still queued can no longer run
+    const retire = () => {
+      if (--active > 0) return;
+
+      for (const job of queue.splice(0)) {
+        outcomes.push({
+          foregroundPath: job.foregroundPath,
+          ok: false,
+          seconds: 0,
+          error: 'No worker left to process this file'
+        });
+      }
+      resolvePool(outcomes);
+    };
+
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(new URL(import.meta.url));
+      let current: RenderJob | undefined;
+
+      const next = () => {
+        current = queue.shift();
+        if (current) {
+          worker.postMessage(current);
+          return;
+        }
+
+        worker.terminate();
+        retire();
+      };
+
+      worker.on('message', (outcome: RenderOutcome) => {
+        outcomes.push(outcome);
+        const mark = outcome.ok ? '✓' : '✗';
+        console.log(`[${outcomes.length}/${total}] ${mark} ${outcome.foregroundPath} (${outcome.seconds.toFixed(2)}s)`);
+        next();
+      });
+
+      // A crashed worker fails its current file; the pool carries on without it
+      worker.on('error', (error: Error) => {
+        if (current) {
+          outcomes.push({
+            foregroundPath: current.foregroundPath,
+            ok: false,
+            seconds: 0,
+            error: error.message
+          });
+          current = undefined;
+        }
+        retire();
+      });
+
+      worker.on('online', next);
+    }
+  });
+}
+
+if (isMainThread) {
+  runMain(process.argv.slice(2))
+    .then((code) => {
+      process.exitCode = code;
+    })
+    .catch((error) => {
+      if (error instanceof UsageError) {
+        console.error(`shadowgen: ${error.message}`);
+        console.error(USAGE);
+        process.exitCode = 2;
+        return;
+      }
+      console.error(`shadowgen: ${error instanceof Error ? error.message : error}`);
+      process.exitCode = 1;
+    });
+} else {
+  runWorker();
+}
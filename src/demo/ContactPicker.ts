@@ -0,0 +1,163 @@
+/**
+ * Draw the ground contact line by hand over the foreground preview
+ */
+
+import type { PixelBuffer } from '../lib/core/types';
+import { toImageData } from '../lib/utils/imageData';
+
+export type ContactPickerMode = 'auto' | 'manual';
+
+type Point = { x: number; y: number };
+
+/**
+ * ContactPicker - Manual contact line editor drawn on a preview canvas
+ *
+ * - Auto mode: the pipeline detects the contact line, nothing to draw
+ * - Manual mode: each stroke is one contact segment (a foot, a leg, the
+ *   base); strokes add up until clear()
+ * - Strokes are kept in foreground pixels and scaled to the render size
+ *   by getManualContact()
+ */
+export class ContactPicker {
+  /** Called after the user finishes a stroke, clears or changes the mode */
+  onChange: (() => void) | null = null;
+
+  private canvas: HTMLCanvasElement;
+  private image: PixelBuffer | null = null;
+  private mode: ContactPickerMode = 'auto';
+  private strokes: Point[][] = [];
+
+  // Stroke being drawn
+  private drawing: Point[] | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.canvas.style.touchAction = 'none';
+
+    this.canvas.addEventListener('pointerdown', (e) => this.handlePointerDown(e));
+    this.canvas.addEventListener('pointermove', (e) => this.handlePointerMove(e));
+    this.canvas.addEventListener('pointerup', (e) => this.handlePointerUp(e));
+    this.canvas.addEventListener('pointercancel', (e) => this.handlePointerUp(e));
+  }
+
+  /**
+   * Show a new foreground; strokes drawn for the previous one are dropped
+   */
+  setImage(image: PixelBuffer): void {
+    this.image = image;
+    this.strokes = [];
+    this.draw();
+  }
+
+  setMode(mode: ContactPickerMode): void {
+    this.mode = mode;
+    this.canvas.style.cursor = mode === 'manual' ? 'crosshair' : '';
+    this.draw();
+    this.onChange?.();
+  }
+
+  clear(): void {
+    this.strokes = [];
+    this.draw();
+    this.onChange?.();
+  }
+
+  /**
+   * Drawn contact line, scaled to the image size used for rendering
+   *
+   * @param width - Render width
+   * @param height - Render height
+   * @returns One polyline per stroke, or undefined in auto mode or
+   *          before anything is drawn
+   */
+  getManualContact(width: number, height: number): Point[][] | undefined {
+    if (!this.image || this.mode === 'auto' || this.strokes.length === 0) return undefined;
+
+    const scaleX = width / this.image.width;
+    const scaleY = height / this.image.height;
+
+    return this.strokes.map((stroke) =>
+      stroke.map((point) => ({ x: point.x * scaleX, y: point.y * scaleY }))
+    );
+  }
+
+  private handlePointerDown(event: PointerEvent): void {
+    if (!this.image || this.mode === 'auto') return;
+
+    this.drawing = [this.toImagePoint(event)];
+    this.canvas.setPointerCapture(event.pointerId);
+    this.draw();
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    if (!this.drawing) return;
+
+    this.drawing.push(this.toImagePoint(event));
+    this.draw();
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    if (!this.drawing) return;
+
+    this.strokes.push(this.drawing);
+    this.drawing = null;
+    if (this.canvas.hasPointerCapture(event.pointerId)) {
+      this.canvas.releasePointerCapture(event.pointerId);
+    }
+
+    this.draw();
+    this.onChange?.();
+  }
+
+  /**
+   * Pointer position in foreground pixels (the canvas is displayed scaled),
+   * clamped to the image
+   */
+  private toImagePoint(event: PointerEvent): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * this.canvas.width;
+    const y = ((event.clientY - rect.top) / rect.height) * this.canvas.height;
+
+    return {
+      x: Math.max(0, Math.min(this.canvas.width - 1, x)),
+      y: Math.max(0, Math.min(this.canvas.height - 1, y))
+    };
+  }
+
+  /**
+   * Redraw the foreground with the drawn strokes
+   */
+  private draw(): void {
+    if (!this.image) return;
+
+    this.canvas.width = this.image.width;
+    this.canvas.height = this.image.height;
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    ctx.putImageData(toImageData(this.image), 0, 0);
+    if (this.mode === 'auto') return;
+
+    // Keep the line about 3 screen pixels wide however the preview is scaled
+    const displayWidth = this.canvas.getBoundingClientRect().width;
+    const unit = displayWidth > 0 ? this.canvas.width / displayWidth : 1;
+    ctx.lineWidth = 3 * unit;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#ff5252';
+
+    for (const stroke of this.drawing ? [...this.strokes, this.drawing] : this.strokes) {
+      ctx.beginPath();
+      stroke.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+      });
+      // A single click still shows as a dot
+      if (stroke.length === 1) ctx.lineTo(stroke[0].x + 0.01, stroke[0].y);
+      ctx.stroke();
+    }
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Drag a horizon line or four floor corners over the background preview
+ */
+
+import type { GroundPlaneConfig, PixelBuffer } from '../lib/core/types';
+import { toImageData } from '../lib/utils/imageData';
+
+export type FloorPickerMode = 'off' | 'horizon' | 'floor';
+
+type Point = { x: number; y: number };
+
+/**
+ * FloorPicker - Floor description editor drawn on a preview canvas
+ *
+ * - Horizon mode: drag anywhere to move the horizon line
+ * - Floor mode: drag the four corner handles onto a rectangle lying on the
+ *   floor (tile, rug, table top), in the order far-left, far-right,
+ *   near-right, near-left
+ * - Coordinates are kept in background pixels and scaled to the render
+ *   size by getGroundPlane()
+ */
+export class FloorPicker {
+  /** Handle grab radius in screen pixels */
+  private static readonly HANDLE_RADIUS = 12;
+
+  /** Called after the user finishes a drag or changes the mode */
+  onChange: (() => void) | null = null;
+
+  private canvas: HTMLCanvasElement;
+  private image: PixelBuffer | null = null;
+  private mode: FloorPickerMode = 'off';
+  private horizonY: number = 0;
+  private corners: Point[] = [];
+
+  // Corner index or 'horizon' while dragging
+  private dragging: number | 'horizon' | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.canvas.style.touchAction = 'none';
+
+    this.canvas.addEventListener('pointerdown', (e) => this.handlePointerDown(e));
+    this.canvas.addEventListener('pointermove', (e) => this.handlePointerMove(e));
+    this.canvas.addEventListener('pointerup', (e) => this.handlePointerUp(e));
+    this.canvas.addEventListener('pointercancel', (e) => this.handlePointerUp(e));
+  }
+
+  /**
+   * Show a new background and reset the floor to a default guess
+   * (horizon at 40% height, floor quad across the lower half)
+   */
+  setImage(image: PixelBuffer): void {
+    const { width, height } = image;
+    this.image = image;
+    this.horizonY = Math.round(height * 0.4);
+    this.corners = [
+      { x: width * 0.3, y: height * 0.6 },
+      { x: width * 0.7, y: height * 0.6 },
+      { x: width * 0.9, y: height * 0.95 },
+      { x: width * 0.1, y: height * 0.95 }
+    ];
+    this.draw();
+  }
+
+  setMode(mode: FloorPickerMode): void {
+    this.mode = mode;
+    this.canvas.style.cursor = mode === 'off' ? '' : 'crosshair';
+    this.draw();
+    this.onChange?.();
+  }
+
+  /**
+   * Current floor description, scaled to the image size used for rendering
+   *
+   * @param width - Render width (the background is resized to it)
+   * @param height - Render height
+   * @returns Ground plane config, or undefined when the picker is off
+   */
+  getGroundPlane(width: number, height: number): GroundPlaneConfig | undefined {
+    if (!this.image || this.mode === 'off') return undefined;
+
+    const scaleX = width / this.image.width;
+    const scaleY = height / this.image.height;
+
+    if (this.mode === 'horizon') {
+      return { horizonY: this.horizonY * scaleY };
+    }
+
+    return {
+      floorPoints: this.corners.map((corner) => ({ x: corner.x * scaleX, y: corner.y * scaleY }))
+    };
+  }
+
+  private handlePointerDown(event: PointerEvent): void {
+    if (!this.image || this.mode === 'off') return;
+
+    const point = this.toImagePoint(event);
+
+    if (this.mode === 'horizon') {
+      this.dragging = 'horizon';
+      this.horizonY = point.y;
+    } else {
+      const radius = FloorPicker.HANDLE_RADIUS * this.pixelsPerScreenPixel();
+      let nearest = -1;
+      let nearestDistance = radius;
+
+      this.corners.forEach((corner, i) => {
+        const d = Math.hypot(corner.x - point.x, corner.y - point.y);
+        if (d <= nearestDistance) {
+          nearest = i;
+          nearestDistance = d;
+        }
+      });
+
+      if (nearest < 0) return;
+      this.dragging = nearest;
+    }
+
+    this.canvas.setPointerCapture(event.pointerId);
+    this.draw();
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    if (this.dragging === null) return;
+
+    const point = this.toImagePoint(event);
+    if (this.dragging === 'horizon') {
+      this.horizonY = point.y;
+    } else {
+      this.corners[this.dragging] = point;
+    }
+
+    this.draw();
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    if (this.dragging === null) return;
+
+    this.dragging = null;
+    if (this.canvas.hasPointerCapture(event.pointerId)) {
+      this.canvas.releasePointerCapture(event.pointerId);
+    }
+
+    this.draw();
+    this.onChange?.();
+  }
+
+  /**
+   * Pointer position in background pixels (the canvas is displayed scaled),
+   * clamped to the image
+   */
+  private toImagePoint(event: PointerEvent): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * this.canvas.width;
+    const y = ((event.clientY - rect.top) / rect.height) * this.canvas.height;
+
+    return {
+      x: Math.max(0, Math.min(this.canvas.width - 1, x)),
+      y: Math.max(0, Math.min(this.canvas.height - 1, y))
+    };
+  }
+
+  /** Background pixels per on-screen pixel (for sizes that should look constant) */
+  private pixelsPerScreenPixel(): number {
+    const displayWidth = this.canvas.getBoundingClientRect().width;
+    return displayWidth > 0 ? this.canvas.width / displayWidth : 1;
+  }
+
+  /**
+   * Redraw the background with the floor overlay
+   */
+  private draw(): void {
+    if (!this.image) return;
+
+    this.canvas.width = this.image.width;
+    this.canvas.height = this.image.height;
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    ctx.putImageData(toImageData(this.image), 0, 0);
+    if (this.mode === 'off') return;
+
+    const unit = this.pixelsPerScreenPixel();
+    ctx.lineWidth = 2 * unit;
+    ctx.strokeStyle = '#4fc3f7';
+    ctx.fillStyle = '#4fc3f7';
+    ctx.font = `${12 * unit}px sans-serif`;
+
+    if (this.mode === 'horizon') {
+      ctx.setLineDash([8 * unit, 6 * unit]);
+      ctx.beginPath();
+      ctx.moveTo(0, this.horizonY);
+      ctx.lineTo(this.canvas.width, this.horizonY);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillText('Horizon', 6 * unit, this.horizonY - 6 * unit);
+      return;
+    }
+
+    // Floor quad with numbered handles (far-left, far-right, near-right, near-left)
+    ctx.beginPath();
+    this.corners.forEach((corner, i) => {
+      if (i === 0) ctx.moveTo(corner.x, corner.y);
+      else ctx.lineTo(corner.x, corner.y);
+    });
+    ctx.closePath();
+    ctx.stroke();
+    ctx.globalAlpha = 0.15;
+    ctx.fill();
+    ctx.globalAlpha = 1;
+
+    this.corners.forEach((corner, i) => {
+      ctx.beginPath();
+      ctx.arc(corner.x, corner.y, (this.dragging === i ? 8 : 6) * unit, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillText(String(i + 1), corner.x + 9 * unit, corner.y - 9 * unit);
+    });
+  }
+}
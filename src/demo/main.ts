@@ -2,15 +2,49 @@
  * Demo application for Realistic Shadow Generator
  */
 
-import { ShadowGenerator } from '../lib/core/ShadowGenerator';
+import { WorkerShadowGenerator } from '../lib/worker/WorkerShadowGenerator';
 import { ImageProcessor } from '../lib/core/ImageProcessor';
 import { BackgroundRemover } from '../lib/core/BackgroundRemover';
-import type { ImageSet, ShadowConfig } from '../lib/core/types';
+import { DepthEstimator } from '../lib/core/DepthEstimator';
+import { LightEstimator } from '../lib/algorithms/LightEstimator';
+import type {
+  BlendMode,
+  ForegroundTransform,
+  ImageSet,
+  ShadowConfig,
+  ShadowResult,
+  ShadowProgress,
+  PixelBuffer,
+  RGBColor
+} from '../lib/core/types';
+import { toImageData } from '../lib/utils/imageData';
+import { foregroundToBackground } from '../lib/utils/placement';
+import { FloorPicker } from './FloorPicker';
+import type { FloorPickerMode } from './FloorPicker';
+import { ContactPicker } from './ContactPicker';
+import type { ContactPickerMode } from './ContactPicker';
 
 class DemoApp {
-  private generator: ShadowGenerator;
+  private generator: WorkerShadowGenerator;
+  // Full-size downloads run in their own worker: aborting a preview
+  // terminates the preview worker, which would fail the download
+  private exportGenerator: WorkerShadowGenerator;
   private imageProcessor: ImageProcessor;
 
+  // Aborts the in-flight render when a newer one starts
+  private renderController: AbortController | null = null;
+
+  // A light slider moved while a render was running: render again after it
+  private liveRenderQueued: boolean = false;
+
+  // Loaded images brought to one size, reused while they stay the same
+  // (the worker's session cache matches images by identity)
+  private preparedImages: { inputs: unknown[]; images: PixelBuffer[] } | null = null;
+
+  // Inputs of the last preview, re-rendered at full size for downloads
+  private lastRender: { imageSet: ImageSet; config: ShadowConfig } | null = null;
+  private exportResult: Promise<ShadowResult> | null = null;
+
   // Loaded images
   private foregroundData: ImageData | null = null;
   private backgroundData: ImageData | null = null;
@@ -22,9 +56,30 @@ class DemoApp {
   private depthMapInput: HTMLInputElement;
   private lightAngleSlider: HTMLInputElement;
   private lightElevationSlider: HTMLInputElement;
+  private lightSizeSlider: HTMLInputElement;
+  private depthScaleSlider: HTMLInputElement;
+  private depthNearWhiteToggle: HTMLInputElement;
+  private contactOpacitySlider: HTMLInputElement;
+  private contactRadiusSlider: HTMLInputElement;
+  private placeToggle: HTMLInputElement;
+  private placeXSlider: HTMLInputElement;
+  private placeYSlider: HTMLInputElement;
+  private placeScaleSlider: HTMLInputElement;
+  private placeRotationSlider: HTMLInputElement;
+  private placeFlipToggle: HTMLInputElement;
   private angleValueDisplay: HTMLElement;
   private elevationValueDisplay: HTMLElement;
+  private lightSizeValueDisplay: HTMLElement;
+  private depthScaleValueDisplay: HTMLElement;
+  private contactOpacityValueDisplay: HTMLElement;
+  private contactRadiusValueDisplay: HTMLElement;
+  private placeXValueDisplay: HTMLElement;
+  private placeYValueDisplay: HTMLElement;
+  private placeScaleValueDisplay: HTMLElement;
+  private placeRotationValueDisplay: HTMLElement;
   private generateBtn: HTMLButtonElement;
+  private estimateLightBtn: HTMLButtonElement;
+  private clearContactBtn: HTMLButtonElement;
   private statusDiv: HTMLElement;
   private outputsContainer: HTMLElement;
   private shadowCanvas: HTMLCanvasElement;
@@ -34,14 +89,32 @@ class DemoApp {
   private backgroundPreview: HTMLCanvasElement;
   private depthmapPreview: HTMLCanvasElement;
   private removeBackgroundToggle: HTMLInputElement;
+  private estimateDepthToggle: HTMLInputElement;
+  private floorModeSelect: HTMLSelectElement;
+  private contactModeSelect: HTMLSelectElement;
+  private shadowColorModeSelect: HTMLSelectElement;
+  private shadowColorInput: HTMLInputElement;
+  private blendModeSelect: HTMLSelectElement;
+  private previewSizeSelect: HTMLSelectElement;
+  private exportModeSelect: HTMLSelectElement;
+  private floorPicker: FloorPicker;
+  private contactPicker: ContactPicker;
   private backgroundRemover: BackgroundRemover;
   private removeBackgroundEnabled: boolean = false;
+  private depthEstimator: DepthEstimator;
+  private depthMapEstimated: boolean = false;
+  private lightEstimator: LightEstimator;
 
   constructor() {
     // Initialize library components
-    this.generator = new ShadowGenerator();
-    this.imageProcessor = new ImageProcessor();
+    // Session: re-renders for new light settings reuse the silhouette, contact line, etc.
+    this.generator = new WorkerShadowGenerator({ session: true });
+    this.exportGenerator = new WorkerShadowGenerator();
+    // Keep full resolution; previews are computed at a working size
+    this.imageProcessor = new ImageProcessor({ maxDimension: Infinity });
     this.backgroundRemover = new BackgroundRemover();
+    this.depthEstimator = new DepthEstimator();
+    this.lightEstimator = new LightEstimator();
 
     // Get UI elements
     this.foregroundInput = document.getElementById('foreground') as HTMLInputElement;
@@ -49,9 +122,30 @@ class DemoApp {
     this.depthMapInput = document.getElementById('depthmap') as HTMLInputElement;
     this.lightAngleSlider = document.getElementById('lightAngle') as HTMLInputElement;
     this.lightElevationSlider = document.getElementById('lightElevation') as HTMLInputElement;
+    this.lightSizeSlider = document.getElementById('lightSize') as HTMLInputElement;
+    this.depthScaleSlider = document.getElementById('depthScale') as HTMLInputElement;
+    this.depthNearWhiteToggle = document.getElementById('depthNearWhite') as HTMLInputElement;
+    this.contactOpacitySlider = document.getElementById('contactOpacity') as HTMLInputElement;
+    this.contactRadiusSlider = document.getElementById('contactRadius') as HTMLInputElement;
+    this.placeToggle = document.getElementById('placeToggle') as HTMLInputElement;
+    this.placeXSlider = document.getElementById('placeX') as HTMLInputElement;
+    this.placeYSlider = document.getElementById('placeY') as HTMLInputElement;
+    this.placeScaleSlider = document.getElementById('placeScale') as HTMLInputElement;
+    this.placeRotationSlider = document.getElementById('placeRotation') as HTMLInputElement;
+    this.placeFlipToggle = document.getElementById('placeFlip') as HTMLInputElement;
     this.angleValueDisplay = document.getElementById('angleValue') as HTMLElement;
     this.elevationValueDisplay = document.getElementById('elevationValue') as HTMLElement;
+    this.lightSizeValueDisplay = document.getElementById('lightSizeValue') as HTMLElement;
+    this.depthScaleValueDisplay = document.getElementById('depthScaleValue') as HTMLElement;
+    this.contactOpacityValueDisplay = document.getElementById('contactOpacityValue') as HTMLElement;
+    this.contactRadiusValueDisplay = document.getElementById('contactRadiusValue') as HTMLElement;
+    this.placeXValueDisplay = document.getElementById('placeXValue') as HTMLElement;
+    this.placeYValueDisplay = document.getElementById('placeYValue') as HTMLElement;
+    this.placeScaleValueDisplay = document.getElementById('placeScaleValue') as HTMLElement;
+    this.placeRotationValueDisplay = document.getElementById('placeRotationValue') as HTMLElement;
     this.generateBtn = document.getElementById('generateBtn') as HTMLButtonElement;
+    this.estimateLightBtn = document.getElementById('estimateLightBtn') as HTMLButtonElement;
+    this.clearContactBtn = document.getElementById('clearContactBtn') as HTMLButtonElement;
     this.statusDiv = document.getElementById('status') as HTMLElement;
     this.outputsContainer = document.getElementById('outputsContainer') as HTMLElement;
     this.shadowCanvas = document.getElementById('shadowCanvas') as HTMLCanvasElement;
@@ -61,6 +155,20 @@ class DemoApp {
     this.backgroundPreview = document.getElementById('backgroundPreview') as HTMLCanvasElement;
     this.depthmapPreview = document.getElementById('depthmapPreview') as HTMLCanvasElement;
     this.removeBackgroundToggle = document.getElementById('removeBackgroundToggle') as HTMLInputElement;
+    this.estimateDepthToggle = document.getElementById('estimateDepthToggle') as HTMLInputElement;
+    this.floorModeSelect = document.getElementById('floorMode') as HTMLSelectElement;
+    this.contactModeSelect = document.getElementById('contactMode') as HTMLSelectElement;
+    this.shadowColorModeSelect = document.getElementById('shadowColorMode') as HTMLSelectElement;
+    this.shadowColorInput = document.getElementById('shadowColor') as HTMLInputElement;
+    this.blendModeSelect = document.getElementById('blendMode') as HTMLSelectElement;
+    this.previewSizeSelect = document.getElementById('previewSize') as HTMLSelectElement;
+    this.exportModeSelect = document.getElementById('exportMode') as HTMLSelectElement;
+
+    // Floor plane editor lives on the background preview
+    this.floorPicker = new FloorPicker(this.backgroundPreview);
+
+    // Manual contact line is drawn on the foreground preview
+    this.contactPicker = new ContactPicker(this.foregroundPreview);
 
     this.setupEventListeners();
   }
@@ -88,15 +196,145 @@ class DemoApp {
       }
     });
 
-    // Parameter slider handlers
+    // Depth estimation toggle (used at generate time when no depth map is uploaded)
+    this.estimateDepthToggle.addEventListener('change', () => {
+      const infoDiv = document.getElementById('depthEstimationInfo');
+      if (infoDiv) {
+        infoDiv.style.display = this.estimateDepthToggle.checked ? 'block' : 'none';
+      }
+
+      if (this.estimateDepthToggle.checked && !this.depthEstimator.modelLoaded) {
+        this.showStatus('Preloading depth model...', 'info');
+        this.depthEstimator.preloadModel()
+          .then(() => this.showStatus('Depth model ready!', 'success'))
+          .catch((err) => this.showStatus(`Depth model load failed: ${err}`, 'error'));
+      }
+    });
+
+    // Parameter slider handlers (light sliders re-render while dragged)
     this.lightAngleSlider.addEventListener('input', () => {
       this.angleValueDisplay.textContent = `${this.lightAngleSlider.value}°`;
+      this.renderLive();
     });
 
     this.lightElevationSlider.addEventListener('input', () => {
       this.elevationValueDisplay.textContent = `${this.lightElevationSlider.value}°`;
+      this.renderLive();
     });
 
+    // 0 = no area light (fixed min/max blur radii)
+    this.lightSizeSlider.addEventListener('input', () => {
+      const size = parseFloat(this.lightSizeSlider.value);
+      this.lightSizeValueDisplay.textContent = size > 0 ? `${size}°` : 'Off';
+      this.renderLive();
+    });
+
+    this.depthScaleSlider.addEventListener('input', () => {
+      this.depthScaleValueDisplay.textContent = `${this.depthScaleSlider.value}px`;
+    });
+
+    // 0 = no contact shadow
+    this.contactOpacitySlider.addEventListener('input', () => {
+      const opacity = parseFloat(this.contactOpacitySlider.value);
+      this.contactOpacityValueDisplay.textContent = opacity > 0 ? opacity.toFixed(2) : 'Off';
+    });
+
+    this.contactRadiusSlider.addEventListener('input', () => {
+      this.contactRadiusValueDisplay.textContent = `${this.contactRadiusSlider.value}px`;
+    });
+
+    this.placeXSlider.addEventListener('input', () => {
+      this.placeXValueDisplay.textContent = `${this.placeXSlider.value}%`;
+    });
+
+    this.placeYSlider.addEventListener('input', () => {
+      this.placeYValueDisplay.textContent = `${this.placeYSlider.value}%`;
+    });
+
+    this.placeScaleSlider.addEventListener('input', () => {
+      this.placeScaleValueDisplay.textContent = `${parseFloat(this.placeScaleSlider.value).toFixed(2)}x`;
+    });
+
+    this.placeRotationSlider.addEventListener('input', () => {
+      this.placeRotationValueDisplay.textContent = `${this.placeRotationSlider.value}°`;
+    });
+
+    // Placement sliders only while placing
+    this.placeToggle.addEventListener('change', () => {
+      const controls = document.getElementById('placementControls');
+      if (controls) {
+        controls.style.display = this.placeToggle.checked ? 'flex' : 'none';
+      }
+    });
+
+    // Re-render on slider release once outputs are visible
+    // (a stale in-flight render is cancelled by generateShadow)
+    for (const slider of [
+      this.depthScaleSlider,
+      this.depthNearWhiteToggle,
+      this.shadowColorModeSelect,
+      this.shadowColorInput,
+      this.blendModeSelect,
+      this.previewSizeSelect,
+      this.contactOpacitySlider,
+      this.contactRadiusSlider,
+      this.placeToggle,
+      this.placeXSlider,
+      this.placeYSlider,
+      this.placeScaleSlider,
+      this.placeRotationSlider,
+      this.placeFlipToggle
+    ]) {
+      slider.addEventListener('change', () => {
+        if (!this.outputsContainer.classList.contains('hidden')) {
+          this.generateShadow();
+        }
+      });
+    }
+
+    // Color picker only for a custom shadow color
+    this.shadowColorModeSelect.addEventListener('change', () => {
+      this.shadowColorInput.style.display =
+        this.shadowColorModeSelect.value === 'custom' ? 'block' : 'none';
+    });
+
+    // Floor plane: re-render after each handle drag or mode change
+    this.floorModeSelect.addEventListener('change', () => {
+      const mode = this.floorModeSelect.value as FloorPickerMode;
+      const infoDiv = document.getElementById('floorInfo');
+      if (infoDiv) {
+        infoDiv.style.display = mode === 'off' ? 'none' : 'block';
+      }
+      this.floorPicker.setMode(mode);
+    });
+
+    this.floorPicker.onChange = () => {
+      if (!this.outputsContainer.classList.contains('hidden')) {
+        this.generateShadow();
+      }
+    };
+
+    // Contact line: re-render after each stroke, clear or mode change
+    this.contactModeSelect.addEventListener('change', () => {
+      const mode = this.contactModeSelect.value as ContactPickerMode;
+      const infoDiv = document.getElementById('contactInfo');
+      if (infoDiv) {
+        infoDiv.style.display = mode === 'auto' ? 'none' : 'block';
+      }
+      this.contactPicker.setMode(mode);
+    });
+
+    this.clearContactBtn.addEventListener('click', () => this.contactPicker.clear());
+
+    this.contactPicker.onChange = () => {
+      if (!this.outputsContainer.classList.contains('hidden')) {
+        this.generateShadow();
+      }
+    };
+
+    // Set angle/elevation from the background's lighting
+    this.estimateLightBtn.addEventListener('click', () => this.estimateLight());
+
     // Generate button
     this.generateBtn.addEventListener('click', () => this.generateShadow());
 
@@ -107,10 +345,15 @@ class DemoApp {
         const canvasId = target.dataset.canvas;
         const filename = target.dataset.filename;
         if (canvasId && filename) {
-          this.downloadCanvas(canvasId, filename);
+          this.downloadOutput(canvasId, filename);
         }
       });
     });
+
+    // The full-size result depends on how it is produced
+    this.exportModeSelect.addEventListener('change', () => {
+      this.exportResult = null;
+    });
   }
 
   private async handleImageUpload(type: 'foreground' | 'background' | 'depthmap'): Promise<void> {
@@ -177,15 +420,28 @@ class DemoApp {
           break;
         case 'background':
           this.backgroundData = imageData;
+          // An estimated depth map belongs to the previous background
+          if (this.depthMapEstimated) {
+            this.depthMapData = null;
+            this.depthMapEstimated = false;
+          }
           break;
         case 'depthmap':
           this.depthMapData = imageData;
+          this.depthMapEstimated = false;
           break;
       }
 
-      // Display preview
+      // Display preview (the background and foreground previews also show
+      // the floor and contact line overlays)
       const displayStart = performance.now();
-      this.displayImageData(previewCanvas, imageData);
+      if (type === 'background') {
+        this.floorPicker.setImage(imageData);
+      } else if (type === 'foreground') {
+        this.contactPicker.setImage(imageData);
+      } else {
+        this.displayImageData(previewCanvas, imageData);
+      }
       const displayEnd = performance.now();
 
       console.log(`[${type}] Preview rendered in ${((displayEnd - displayStart) / 1000).toFixed(2)}s`);
@@ -206,6 +462,109 @@ class DemoApp {
     // Enable generate button only if foreground and background are loaded
     const canGenerate = this.foregroundData !== null && this.backgroundData !== null;
     this.generateBtn.disabled = !canGenerate;
+    this.estimateLightBtn.disabled = this.backgroundData === null;
+  }
+
+  private estimateLight(): void {
+    if (!this.backgroundData) return;
+
+    const estimate = this.lightEstimator.estimate(this.backgroundData);
+    const confidence = Math.round(estimate.confidence * 100);
+
+    // Same rule as ShadowGenerator.getDefaultConfig: ignore weak estimates
+    if (estimate.confidence < LightEstimator.MIN_CONFIDENCE) {
+      this.showStatus(`No clear light direction in the background (confidence ${confidence}%)`, 'error');
+      return;
+    }
+
+    this.lightAngleSlider.value = String(Math.round(estimate.angle) % 360);
+    this.lightElevationSlider.value = String(Math.round(estimate.elevation));
+    this.angleValueDisplay.textContent = `${this.lightAngleSlider.value}°`;
+    this.elevationValueDisplay.textContent = `${this.lightElevationSlider.value}°`;
+    this.showStatus(`Light estimated from background (confidence ${confidence}%)`, 'success');
+
+    if (!this.outputsContainer.classList.contains('hidden')) {
+      this.generateShadow();
+    }
+  }
+
+  /**
+   * Shadow color from the color controls (#rrggbb picker value for custom)
+   */
+  private getShadowColor(): RGBColor | 'auto' {
+    const mode = this.shadowColorModeSelect.value;
+    if (mode === 'auto') return 'auto';
+    if (mode === 'black') return { r: 0, g: 0, b: 0 };
+
+    const hex = this.shadowColorInput.value;
+    return {
+      r: parseInt(hex.slice(1, 3), 16),
+      g: parseInt(hex.slice(3, 5), 16),
+      b: parseInt(hex.slice(5, 7), 16)
+    };
+  }
+
+  /**
+   * Foreground placement from the placement controls (position in percent
+   * of the background), or undefined to stretch the foreground as before
+   */
+  private getForegroundTransform(background: PixelBuffer): ForegroundTransform | undefined {
+    if (!this.placeToggle.checked) return undefined;
+
+    return {
+      x: (parseFloat(this.placeXSlider.value) / 100) * background.width,
+      y: (parseFloat(this.placeYSlider.value) / 100) * background.height,
+      scale: parseFloat(this.placeScaleSlider.value),
+      rotation: parseFloat(this.placeRotationSlider.value),
+      flipX: this.placeFlipToggle.checked
+    };
+  }
+
+  /**
+   * Ensure images have same dimensions: a placed foreground keeps its own
+   * size and everything is rendered at the background's
+   *
+   * The result is reused while the loaded images stay the same, so the
+   * worker's session recognizes them.
+   */
+  private prepareImages(foreground: PixelBuffer, background: PixelBuffer, placed: boolean): PixelBuffer[] {
+    const inputs = [foreground, background, this.depthMapData, placed];
+    if (this.preparedImages?.inputs.every((input, i) => input === inputs[i])) {
+      return this.preparedImages.images;
+    }
+
+    const images = placed
+      ? [
+          foreground,
+          ...this.imageProcessor.ensureSameDimensions([
+            background,
+            ...(this.depthMapData ? [this.depthMapData] : [])
+          ])
+        ]
+      : this.imageProcessor.ensureSameDimensions([
+          foreground,
+          background,
+          ...(this.depthMapData ? [this.depthMapData] : [])
+        ]);
+
+    this.preparedImages = { inputs, images };
+    return images;
+  }
+
+  /**
+   * Re-render while a light slider is dragged: a running render is not
+   * aborted (that would terminate the worker and drop its session cache);
+   * the latest position is rendered when it finishes
+   */
+  private renderLive(): void {
+    if (this.outputsContainer.classList.contains('hidden')) return;
+
+    if (this.renderController) {
+      this.liveRenderQueued = true;
+      return;
+    }
+
+    this.generateShadow();
   }
 
   private async generateShadow(): Promise<void> {
@@ -214,39 +573,103 @@ class DemoApp {
       return;
     }
 
+    // Cancel any render that is still running for older parameters
+    // (this one reads every slider, including a queued light change)
+    this.liveRenderQueued = false;
+    this.renderController?.abort();
+    const controller = new AbortController();
+    this.renderController = controller;
+
     try {
       this.generateBtn.disabled = true;
       this.showStatus('Generating shadow...', 'info');
 
-      // Ensure images have same dimensions
-      const images = this.imageProcessor.ensureSameDimensions([
-        this.foregroundData,
-        this.backgroundData,
-        ...(this.depthMapData ? [this.depthMapData] : [])
-      ]);
+      // No uploaded depth map: estimate one from the background if enabled
+      if (!this.depthMapData && this.estimateDepthToggle.checked) {
+        try {
+          this.depthMapData = await this.depthEstimator.estimateDepth(this.backgroundData, {
+            progress: (stage, progress) => {
+              this.showStatus(`${stage}: ${Math.round(progress * 100)}%`, 'info');
+            }
+          });
+          this.depthMapEstimated = true;
+          this.displayImageData(this.depthmapPreview, this.depthMapData);
+        } catch (error) {
+          console.error('Depth estimation failed:', error);
+          this.showStatus('Depth estimation failed. Casting on a flat floor.', 'error');
+        }
+      }
+
+      const transform = this.getForegroundTransform(this.backgroundData);
+      const images = this.prepareImages(this.foregroundData, this.backgroundData, transform !== undefined);
 
       const imageSet: ImageSet = {
         foreground: images[0],
         background: images[1],
-        depthMap: images[2]
+        depthMap: images[2],
+        foregroundTransform: transform
       };
 
-      // Get configuration from sliders
+      // The contact line is drawn in foreground pixels
+      const foreground = images[0];
+      const manualContact = transform
+        ? this.contactPicker.getManualContact(foreground.width, foreground.height)?.map((stroke) =>
+            stroke.map((point) =>
+              foregroundToBackground(transform, foreground.width, foreground.height, point)
+            )
+          )
+        : this.contactPicker.getManualContact(foreground.width, foreground.height);
+
+      // Get configuration from sliders (pixel values are meant for a
+      // 1200px image and grow with larger ones, so the look is the same)
+      const unit = Math.max(
+        1,
+        Math.max(images[1].width, images[1].height) / ImageProcessor.DEFAULT_MAX_DIMENSION
+      );
+      const lightSize = parseFloat(this.lightSizeSlider.value);
+      const contactOpacity = parseFloat(this.contactOpacitySlider.value);
       const config: ShadowConfig = {
         lightAngle: parseInt(this.lightAngleSlider.value),
         lightElevation: parseInt(this.lightElevationSlider.value),
-        maxShadowDistance: 150,
-        contactOpacity: 0.8,
+        maxShadowDistance: 150 * unit,
+        contactOpacity: 0.97, // Darkens the (sRGB) image by 80% at contact
         falloffRate: 4,
-        minBlurRadius: 1,
-        maxBlurRadius: 10
+        minBlurRadius: 1 * unit,
+        maxBlurRadius: 10 * unit,
+        lightSize: lightSize > 0 ? lightSize : undefined,
+        groundPlane: this.floorPicker.getGroundPlane(images[1].width, images[1].height),
+        manualContact,
+        depthScale: parseInt(this.depthScaleSlider.value) * unit,
+        depthNear: this.depthNearWhiteToggle.checked ? 'white' : 'black',
+        shadowColor: this.getShadowColor(),
+        blendMode: this.blendModeSelect.value as BlendMode,
+        contactShadow: contactOpacity > 0
+          ? { opacity: contactOpacity, radius: parseInt(this.contactRadiusSlider.value) * unit }
+          : undefined
       };
 
-      // Generate shadow
+      // Generate the preview at the preview size (0 = full size)
+      const previewSize = parseInt(this.previewSizeSelect.value);
       const startTime = performance.now();
-      const result = this.generator.generate(imageSet, config);
+      const result = await this.generator.generate(
+        imageSet,
+        {
+          ...config,
+          workingResolution: previewSize > 0
+            ? { maxDimension: previewSize, output: 'working' }
+            : undefined
+        },
+        {
+          signal: controller.signal,
+          onProgress: (progress) => this.showProgress(progress)
+        }
+      );
       const endTime = performance.now();
 
+      // Downloads re-render these inputs at full size
+      this.lastRender = { imageSet, config };
+      this.exportResult = null;
+
       // Display results
       this.displayImageData(this.shadowCanvas, result.shadowOnly);
       this.displayImageData(this.maskCanvas, result.maskDebug);
@@ -258,14 +681,25 @@ class DemoApp {
       const duration = ((endTime - startTime) / 1000).toFixed(2);
       this.showStatus(`Shadow generated successfully in ${duration}s`, 'success');
     } catch (error) {
+      // Superseded by a newer render; that one reports its own status
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+
       this.showStatus(`Generation failed: ${error}`, 'error');
       console.error(error);
     } finally {
-      this.generateBtn.disabled = false;
+      if (this.renderController === controller) {
+        this.renderController = null;
+        this.generateBtn.disabled = false;
+
+        // A light slider moved meanwhile: render its latest position
+        if (this.liveRenderQueued) {
+          this.generateShadow();
+        }
+      }
     }
   }
 
-  private displayImageData(canvas: HTMLCanvasElement, imageData: ImageData): void {
+  private displayImageData(canvas: HTMLCanvasElement, imageData: PixelBuffer): void {
     canvas.width = imageData.width;
     canvas.height = imageData.height;
 
@@ -274,24 +708,59 @@ class DemoApp {
       throw new Error('Failed to get canvas context');
     }
 
-    ctx.putImageData(imageData, 0, 0);
+    ctx.putImageData(toImageData(imageData), 0, 0);
+  }
+
+  private showProgress(progress: ShadowProgress): void {
+    const percent = Math.round(progress.stepProgress * 100);
+    const detail = progress.stepProgress > 0 ? ` (${percent}%)` : '';
+    this.showStatus(
+      `Step ${progress.step}/${progress.totalSteps}: ${progress.label}${detail}`,
+      'info'
+    );
   }
 
-  private async downloadCanvas(canvasId: string, filename: string): Promise<void> {
-    const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
-    if (!canvas) return;
+  /**
+   * Download an output at full size: the last preview's inputs are
+   * re-rendered (or its shadow upsampled) once and shared by all three
+   * download buttons
+   */
+  private async downloadOutput(canvasId: string, filename: string): Promise<void> {
+    if (!this.lastRender) return;
+
+    const output = ({
+      shadowCanvas: 'shadowOnly',
+      maskCanvas: 'maskDebug',
+      compositeCanvas: 'composite'
+    } as const)[canvasId];
+    if (!output) return;
 
     try {
-      // Get ImageData from canvas
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error('Failed to get canvas context');
-
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const { imageSet, config } = this.lastRender;
+      const previewSize = parseInt(this.previewSizeSelect.value);
+      const upsample = this.exportModeSelect.value === 'upsample' && previewSize > 0;
+
+      if (!this.exportResult) {
+        this.showStatus('Rendering at full size...', 'info');
+        this.exportResult = this.exportGenerator.generate(
+          imageSet,
+          {
+            ...config,
+            workingResolution: upsample ? { maxDimension: previewSize, output: 'full' } : undefined
+          },
+          { onProgress: (progress) => this.showProgress(progress) }
+        );
+        // A failed render is retried on the next click
+        this.exportResult.catch(() => {
+          this.exportResult = null;
+        });
+      }
+      const result = await this.exportResult;
 
       // Download using ImageProcessor
-      await this.imageProcessor.downloadImageData(imageData, filename);
+      await this.imageProcessor.downloadImageData(result[output], filename);
 
-      this.showStatus(`Downloaded ${filename}`, 'success');
+      this.showStatus(`Downloaded ${filename} (${result[output].width}x${result[output].height})`, 'success');
     } catch (error) {
       this.showStatus(`Download failed: ${error}`, 'error');
     }
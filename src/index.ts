@@ -7,31 +7,76 @@
 
 // Main shadow generator
 export { ShadowGenerator } from './lib/core/ShadowGenerator';
+export { ShadowSession } from './lib/core/ShadowSession';
+
+// Non-blocking generation in a Web Worker
+export { WorkerShadowGenerator } from './lib/worker/WorkerShadowGenerator';
+export type {
+  WorkerGenerateOptions,
+  WorkerShadowGeneratorOptions
+} from './lib/worker/WorkerShadowGenerator';
 
 // Image processing utilities
 export { ImageProcessor } from './lib/core/ImageProcessor';
+export type { ImageProcessorOptions } from './lib/core/ImageProcessor';
 export { BackgroundRemover } from './lib/core/BackgroundRemover';
 export type { BackgroundRemovalOptions } from './lib/core/BackgroundRemover';
+export { DepthEstimator, DEFAULT_DEPTH_MODEL_URL } from './lib/core/DepthEstimator';
+export type { DepthEstimationOptions } from './lib/core/DepthEstimator';
 
 // Core types
 export type {
+  PixelBuffer,
+  FloatPixelBuffer,
   ShadowConfig,
+  DistanceMode,
+  DepthNear,
+  BlendMode,
+  LightSource,
+  DirectionalLight,
+  PointLight,
+  SpotCone,
+  ContactShadowConfig,
+  WorkingResolution,
+  TilingConfig,
+  ImageRegion,
+  GroundPlaneConfig,
   ImageSet,
+  ForegroundTransform,
+  Scene,
+  SceneSubject,
   LightVector,
+  LightEstimate,
+  RGBColor,
   ShadowResult,
+  LinearShadowResult,
   ContactLine,
-  DistanceMap
+  ContactSegment,
+  DistanceMap,
+  ShadowProgress,
+  GenerateOptions
 } from './lib/core/types';
 
 // Individual algorithm modules (for advanced users)
 export { SilhouetteExtractor } from './lib/algorithms/SilhouetteExtractor';
 export { LightVectorCalculator } from './lib/algorithms/LightVectorCalculator';
+export { LightEstimator } from './lib/algorithms/LightEstimator';
 export { ContactLineDetector } from './lib/algorithms/ContactLineDetector';
+export { ContactOcclusion } from './lib/algorithms/ContactOcclusion';
+export { InterSubjectShadow } from './lib/algorithms/InterSubjectShadow';
+export { GuidedUpsampler } from './lib/algorithms/GuidedUpsampler';
+export { ShadowReach } from './lib/algorithms/ShadowReach';
 export { DistanceTransform } from './lib/algorithms/DistanceTransform';
 export { ShadowProjector } from './lib/algorithms/ShadowProjector';
+export { GroundPlane } from './lib/algorithms/GroundPlane';
+export { HeightField } from './lib/algorithms/HeightField';
 export { BlurEngine } from './lib/algorithms/BlurEngine';
 export { ShadowCompositor } from './lib/compositing/ShadowCompositor';
 
 // Utility functions
 export * from './lib/utils/math';
 export * from './lib/utils/imageData';
+export * from './lib/utils/color';
+export * from './lib/utils/homography';
+export * from './lib/utils/placement';
+export * from './lib/utils/region';
@@ -2,9 +2,9 @@
  * Distance-weighted Gaussian blur for realistic shadow softness
  */
 
-import type { DistanceMap } from '../core/types';
+import type { DistanceMap, FloatPixelBuffer } from '../core/types';
 import { clamp, normalize, lerp } from '../utils/math';
-import { isInBounds } from '../utils/imageData';
+import { createFloatPixelBuffer } from '../utils/imageData';
 
 /**
  * BlurEngine - Variable-radius Gaussian blur
@@ -18,193 +18,808 @@ import { isInBounds } from '../utils/imageData';
  * - Weight(x,y) = exp(-(dx² + dy²) / (2*σ²))
  * - σ (sigma) = blur radius / 2
  *
- * Complexity: O(n * k²) where n = pixels, k = max kernel size
- * This is expensive but necessary for realism
+ * Gaussian Stack:
+ * - The whole layer is blurred at a small set of fixed radii ("levels")
+ * - Each pixel interpolates linearly between the two levels that
+ *   bracket its own radius
+ * - Small σ: exact separable Gaussian (horizontal pass, then vertical)
+ * - Large σ: three successive box blurs (running sums), which converge
+ *   to a Gaussian (central limit theorem) at O(1) cost per pixel
+ * - Layers are linear-light float buffers with premultiplied alpha, so
+ *   transparent pixels do not bleed their (meaningless) RGB into the
+ *   shadow edge and edges are averaged in light, not gamma-encoded
+ *   values; a layer with a single shadow color only needs its alpha
+ *   channel blurred
+ * - Each level is only computed over the bounding box of the pixels
+ *   that use it (plus the kernel halo), and only two levels are kept
+ *   in memory at any time
+ * - Wide levels are computed at half resolution and read back
+ *   bilinearly; the smoothing this adds is subtracted from their σ
+ *
+ * Complexity: O(n * L) where n = pixels, L = number of levels (~log r)
  */
 export class BlurEngine {
+  /** Radii up to this value get their own level (1px spacing) */
+  private static readonly LINEAR_LEVEL_LIMIT = 4;
+
+  /** Beyond LINEAR_LEVEL_LIMIT, each level is this much larger than the previous */
+  private static readonly LEVEL_GROWTH = 1.4;
+
+  /** σ up to this value uses an exact Gaussian kernel instead of box passes */
+  private static readonly EXACT_GAUSSIAN_MAX_SIGMA = 1;
+
+  /** From this σ on, levels are computed at half resolution */
+  private static readonly HALF_RES_MIN_SIGMA = 2;
+
+  /**
+   * Blur (variance, in full-resolution pixels²) added by a half resolution
+   * level itself: 2x2 averaging (0.25) plus bilinear read-back (~0.75)
+   */
+  private static readonly HALF_RES_VARIANCE = 1;
+
   /**
    * Apply distance-weighted Gaussian blur to shadow layer
    *
-   * @param shadowData - Shadow ImageData to blur
+   * @param shadowData - Shadow layer to blur
    * @param distanceMap - Distance from contact line for each pixel
    * @param minBlur - Minimum blur radius at contact line (pixels)
    * @param maxBlur - Maximum blur radius at max distance (pixels)
    * @param maxDistance - Maximum shadow distance for normalization
-   * @returns Blurred shadow ImageData
+   * @param onProgress - Optional callback receiving completion (0-1), once per level
+   * @returns Blurred shadow layer
    */
   applyDistanceWeightedBlur(
-    shadowData: ImageData,
+    shadowData: FloatPixelBuffer,
     distanceMap: DistanceMap,
     minBlur: number,
     maxBlur: number,
-    maxDistance: number
-  ): ImageData {
-    const width = shadowData.width;
-    const height = shadowData.height;
+    maxDistance: number,
+    onProgress?: (fraction: number) => void
+  ): FloatPixelBuffer {
+    const radii = new Float32Array(shadowData.width * shadowData.height);
+
+    for (let i = 0; i < radii.length; i++) {
+      // Near contact (distance = 0): minBlur
+      // Far from contact (distance = maxDistance): maxBlur
+      const normalizedDist = clamp(normalize(distanceMap.data[i], 0, maxDistance), 0, 1);
+      radii[i] = lerp(minBlur, maxBlur, normalizedDist);
+    }
 
-    // Create result buffer
-    const result = new ImageData(width, height);
+    // Levels up to the largest possible radius, not the largest in this
+    // buffer: a crop of the image (shadow region, tile) blurs as the whole
+    return this.applyVariableBlur(shadowData, radii, onProgress, Math.max(minBlur, maxBlur));
+  }
 
+  /**
+   * Apply area-light penumbra blur
+   * Blur grows linearly with distance from the contact line (PCSS)
+   *
+   * @param shadowData - Shadow layer to blur
+   * @param distanceMap - Distance from contact line for each pixel
+   * @param penumbraScale - Penumbra width per pixel of distance
+   *                        (see LightVectorCalculator.getPenumbraScale)
+   * @param onProgress - Optional callback receiving completion (0-1), once per level
+   * @returns Blurred shadow layer
+   */
+  applyPenumbraBlur(
+    shadowData: FloatPixelBuffer,
+    distanceMap: DistanceMap,
+    penumbraScale: number,
+    onProgress?: (fraction: number) => void
+  ): FloatPixelBuffer {
+    const radii = new Float32Array(shadowData.width * shadowData.height);
+
+    // A Gaussian's 10-90% transition spans 2.56σ; match it to the penumbra width
+    const radiusPerDistance = (penumbraScale * 2) / 2.56;
+
+    // Infinitely far from the contact: no shadow there to blur
+    for (let i = 0; i < radii.length; i++) {
+      const distance = distanceMap.data[i];
+      radii[i] = distance === Infinity ? 0 : distance * radiusPerDistance;
+    }
+
+    return this.applyVariableBlur(shadowData, radii, onProgress);
+  }
+
+  /**
+   * Apply Gaussian blur with an individual radius per pixel
+   *
+   * @param shadowData - Layer to blur
+   * @param radii - Blur radius for each pixel (pixels, same layout as the layer)
+   * @param onProgress - Optional callback receiving completion (0-1), once per level
+   * @param radiusLimit - Top of the level stack (default: the largest radius
+   *                      in radii); levels only depend on it, not on radii
+   * @returns Blurred layer
+   */
+  applyVariableBlur(
+    shadowData: FloatPixelBuffer,
+    radii: Float32Array,
+    onProgress?: (fraction: number) => void,
+    radiusLimit: number = 0
+  ): FloatPixelBuffer {
+    const width = shadowData.width;
+    const height = shadowData.height;
     const totalPixels = width * height;
-    let processedPixels = 0;
-    let lastLogTime = performance.now();
     const startTime = performance.now();
+    const result = createFloatPixelBuffer(width, height);
 
-    console.log(`   Processing ${width}x${height} = ${totalPixels.toLocaleString()} pixels...`);
+    const alphaBounds = this.findAlphaBounds(shadowData);
+    if (!alphaBounds) {
+      onProgress?.(1);
+      return result; // Nothing to blur
+    }
 
-    // For each pixel, apply blur based on its distance from contact line
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = y * width + x;
-
-        // Get distance from contact line for this pixel
-        const distance = distanceMap.data[idx];
-
-        // Calculate blur radius based on distance
-        // Near contact (distance = 0): minBlur
-        // Far from contact (distance = maxDistance): maxBlur
-        const normalizedDist = normalize(distance, 0, maxDistance);
-        const blurRadius = lerp(minBlur, maxBlur, normalizedDist);
-
-        // Apply Gaussian blur at this pixel with calculated radius
-        const blurred = this.gaussianBlurAtPixel(
-          shadowData,
-          x,
-          y,
-          blurRadius
-        );
-
-        // Write blurred pixel to result
-        const pixelIdx = idx * 4;
-        result.data[pixelIdx] = blurred.r;
-        result.data[pixelIdx + 1] = blurred.g;
-        result.data[pixelIdx + 2] = blurred.b;
-        result.data[pixelIdx + 3] = blurred.a;
-
-        processedPixels++;
-
-        // Log progress every 2 seconds
-        const now = performance.now();
-        if (now - lastLogTime > 2000) {
-          const progress = ((processedPixels / totalPixels) * 100).toFixed(1);
-          const elapsed = ((now - startTime) / 1000).toFixed(1);
-          const pixelsPerSec = processedPixels / ((now - startTime) / 1000);
-          const remaining = ((totalPixels - processedPixels) / pixelsPerSec).toFixed(1);
-          console.log(`   Blur progress: ${progress}% (${elapsed}s elapsed, ~${remaining}s remaining)`);
-          lastLogTime = now;
+    let maxRadius = radiusLimit;
+    for (let i = 0; i < totalPixels; i++) {
+      if (radii[i] > maxRadius) maxRadius = radii[i];
+    }
+
+    // Pixels farther than the largest kernel from any opaque pixel stay transparent
+    const active = this.expandRect(alphaBounds, this.getHalo(maxRadius), width, height);
+    const levels = this.buildLevels(maxRadius);
+    const pairCount = Math.max(1, levels.length - 1);
+
+    console.log(`   Processing ${active.w}x${active.h} of ${width}x${height} pixels, ${levels.length} blur levels...`);
+
+    // Assign each active pixel to the pair of levels bracketing its radius
+    const pairOf = new Uint8Array(totalPixels).fill(NO_PAIR);
+    const extents = new BoundsTracker(pairCount);
+
+    const activeRight = active.x + active.w;
+    let pair = 0;
+
+    for (let y = active.y; y < active.y + active.h; y++) {
+      // Neighbouring pixels mostly share a pair, so bounds grow per run, not per pixel
+      let runPair = -1;
+      let runStart = active.x;
+
+      for (let x = active.x; x < activeRight; x++) {
+        const i = y * width + x;
+        const r = radii[i];
+
+        // Search starts from the previous pixel's pair
+        while (pair < pairCount - 1 && r >= levels[pair + 1]) pair++;
+        while (pair > 0 && r < levels[pair]) pair--;
+        pairOf[i] = pair;
+
+        if (pair !== runPair) {
+          if (runPair >= 0) {
+            extents.include(runPair, runStart, y);
+            extents.include(runPair, x - 1, y);
+          }
+          runPair = pair;
+          runStart = x;
         }
       }
+
+      extents.include(runPair, runStart, y);
+      extents.include(runPair, activeRight - 1, y);
+    }
+
+    const pairBounds = extents.toRects();
+
+    const { planes, color } = this.toPlanes(shadowData);
+    const colorPlanes = planes.length === 4;
+
+    // Level 0 is the unblurred layer
+    let previous: Level = { planes, rect: { x: 0, y: 0, w: width, h: height }, scale: 1 };
+
+    if (levels.length === 1) {
+      this.writePair(result, previous, previous, 0, 0, pairOf, pairBounds[0]!, levels, radii, color);
+    }
+
+    for (let k = 1; k < levels.length; k++) {
+      // Level k is used by pairs k - 1 and k
+      const needed = this.unionRect(pairBounds[k - 1], k < pairCount ? pairBounds[k] : null);
+      let current: Level | null = null;
+
+      if (needed) {
+        // Not clipped to the image: the halo outside repeats the edge pixels,
+        // so the level matches a Gaussian with clamped edges
+        const margin = this.getHalo(levels[k]);
+        const rect = {
+          x: needed.x - margin,
+          y: needed.y - margin,
+          w: needed.w + margin * 2,
+          h: needed.h + margin * 2
+        };
+        current = this.computeLevel(planes, width, height, rect, levels[k]);
+      }
+
+      if (current && pairBounds[k - 1]) {
+        this.writePair(result, previous, current, k - 1, k, pairOf, pairBounds[k - 1]!, levels, radii, color);
+      }
+
+      // Pairs without pixels leave a gap; the next level then starts from scratch
+      previous = current ?? previous;
+      onProgress?.(k / (levels.length - 1));
+    }
+
+    if (levels.length === 1) {
+      onProgress?.(1);
     }
 
     const totalTime = ((performance.now() - startTime) / 1000).toFixed(2);
-    console.log(`   Blur completed in ${totalTime}s`);
+    console.log(`   Blur completed in ${totalTime}s${colorPlanes ? '' : ' (alpha only)'}`);
 
     return result;
   }
 
   /**
-   * Apply fast box blur approximation at a single pixel
-   * Much faster than Gaussian blur (O(1) instead of O(r²))
+   * Uniform Gaussian blur
+   * Applies same blur radius to entire image
    *
-   * @param imageData - Source image
-   * @param cx - Center X coordinate
-   * @param cy - Center Y coordinate
-   * @param radius - Blur radius
-   * @returns Blurred pixel color { r, g, b, a }
-   */
-  private gaussianBlurAtPixel(
-    imageData: ImageData,
-    cx: number,
-    cy: number,
+   * @param imageData - Image to blur
+   * @param radius - Blur radius (σ = radius / 2)
+   * @returns Blurred image
+   */
+  uniformBlur(imageData: FloatPixelBuffer, radius: number): FloatPixelBuffer {
+    const radii = new Float32Array(imageData.width * imageData.height).fill(Math.max(0, radius));
+    return this.applyVariableBlur(imageData, radii);
+  }
+
+  /**
+   * Choose blur radii for the Gaussian stack
+   * Level 0 = no blur; 1px spacing up to LINEAR_LEVEL_LIMIT, then geometric
+   *
+   * @param maxRadius - Largest radius requested by any pixel
+   * @returns Increasing list of radii, starting at 0, last >= maxRadius
+   */
+  private buildLevels(maxRadius: number): number[] {
+    const levels = [0];
+    if (maxRadius <= 0) return levels;
+
+    let r = 1;
+    while (r < maxRadius) {
+      levels.push(r);
+      r = r < BlurEngine.LINEAR_LEVEL_LIMIT ? r + 1 : r * BlurEngine.LEVEL_GROWTH;
+    }
+
+    // Stretch the last level instead of adding an almost identical one
+    if (levels.length > 1 && maxRadius - levels[levels.length - 1] < 0.25) {
+      levels[levels.length - 1] = maxRadius;
+    } else {
+      levels.push(maxRadius);
+    }
+
+    return levels;
+  }
+
+  /**
+   * Blur all planes over one rectangle, at full or half resolution
+   */
+  private computeLevel(
+    planes: Float32Array[],
+    width: number,
+    height: number,
+    rect: Rect,
     radius: number
-  ): { r: number; g: number; b: number; a: number } {
-    // Skip blur for very small radius
-    if (radius < 0.5) {
-      const idx = (cy * imageData.width + cx) * 4;
+  ): Level {
+    const sigma = radius / 2;
+
+    if (sigma < BlurEngine.HALF_RES_MIN_SIGMA) {
       return {
-        r: imageData.data[idx],
-        g: imageData.data[idx + 1],
-        b: imageData.data[idx + 2],
-        a: imageData.data[idx + 3]
+        planes: planes.map((plane) =>
+          this.blurPlane(this.cropPlane(plane, width, height, rect), rect.w, rect.h, sigma)
+        ),
+        rect,
+        scale: 1
       };
     }
 
-    const width = imageData.width;
-    const height = imageData.height;
-    const pixels = imageData.data;
+    // 2x2 blocks start on even pixels, so a crop of the layer that starts
+    // on even pixels too gets the same blocks as the whole layer
+    const x = Math.floor(rect.x / 2) * 2;
+    const y = Math.floor(rect.y / 2) * 2;
+    const halfRect = { x, y, w: rect.w + rect.x - x, h: rect.h + rect.y - y };
 
-    // Use box blur for speed (good approximation of Gaussian)
-    let r = 0;
-    let g = 0;
-    let b = 0;
-    let a = 0;
-    let count = 0;
-
-    const intRadius = Math.ceil(radius);
-
-    // Sample square neighborhood
-    for (let dy = -intRadius; dy <= intRadius; dy++) {
-      for (let dx = -intRadius; dx <= intRadius; dx++) {
-        const x = cx + dx;
-        const y = cy + dy;
-
-        // Skip out-of-bounds pixels
-        if (x < 0 || x >= width || y < 0 || y >= height) continue;
-
-        // Simple distance check for circular blur
-        const distSq = dx * dx + dy * dy;
-        if (distSq > radius * radius) continue;
-
-        const idx = (y * width + x) * 4;
-        r += pixels[idx];
-        g += pixels[idx + 1];
-        b += pixels[idx + 2];
-        a += pixels[idx + 3];
-        count++;
+    const halfW = Math.ceil(halfRect.w / 2);
+    const halfH = Math.ceil(halfRect.h / 2);
+    const halfSigma = Math.sqrt(sigma * sigma - BlurEngine.HALF_RES_VARIANCE) / 2;
+
+    return {
+      planes: planes.map((plane) =>
+        this.blurPlane(this.downsamplePlane(plane, width, height, halfRect), halfW, halfH, halfSigma)
+      ),
+      rect: halfRect,
+      scale: 2
+    };
+  }
+
+  /**
+   * Interpolate between two levels for every pixel assigned to this pair
+   * and write the (premultiplied) result
+   */
+  private writePair(
+    result: FloatPixelBuffer,
+    lower: Level,
+    upper: Level,
+    lowerIndex: number,
+    upperIndex: number,
+    pairOf: Uint8Array,
+    bounds: Rect,
+    levels: number[],
+    radii: Float32Array,
+    color: [number, number, number] | null
+  ): void {
+    const width = result.width;
+    const pixels = result.data;
+    const r0 = levels[lowerIndex];
+    const r1 = levels[upperIndex];
+    const invSpan = r1 > r0 ? 1 / (r1 - r0) : 0;
+    const alphaPlane = lower.planes.length - 1;
+
+    for (let y = bounds.y; y < bounds.y + bounds.h; y++) {
+      const row = y * width;
+
+      for (let x = bounds.x; x < bounds.x + bounds.w; x++) {
+        const i = row + x;
+        if (pairOf[i] !== lowerIndex) continue;
+
+        let t = (radii[i] - r0) * invSpan;
+        t = t < 0 ? 0 : t > 1 ? 1 : t;
+
+        const la = this.sample(lower, alphaPlane, x, y);
+        const a = la + (this.sample(upper, alphaPlane, x, y) - la) * t;
+        if (a <= 0) continue; // Transparent: leave (0, 0, 0, 0)
+
+        const p = i * 4;
+        pixels[p + 3] = a;
+
+        if (color) {
+          pixels[p] = color[0] * a;
+          pixels[p + 1] = color[1] * a;
+          pixels[p + 2] = color[2] * a;
+          continue;
+        }
+
+        for (let c = 0; c < 3; c++) {
+          const lc = this.sample(lower, c, x, y);
+          pixels[p + c] = lc + (this.sample(upper, c, x, y) - lc) * t;
+        }
       }
     }
+  }
 
-    // Average
-    if (count > 0) {
-      r /= count;
-      g /= count;
-      b /= count;
-      a /= count;
+  /**
+   * Read one plane of a level at a full-resolution pixel
+   * (bilinear for half resolution levels, edges clamped)
+   */
+  private sample(level: Level, planeIndex: number, x: number, y: number): number {
+    const plane = level.planes[planeIndex];
+    const rect = level.rect;
+
+    if (level.scale === 1) {
+      return plane[(y - rect.y) * rect.w + (x - rect.x)];
     }
 
-    return {
-      r: clamp(Math.round(r), 0, 255),
-      g: clamp(Math.round(g), 0, 255),
-      b: clamp(Math.round(b), 0, 255),
-      a: clamp(Math.round(a), 0, 255)
-    };
+    const w = (rect.w + 1) >> 1;
+    const h = (rect.h + 1) >> 1;
+
+    // Pixel centers: full-resolution x maps to (x + 0.5) / 2 - 0.5
+    let fx = (x - rect.x) * 0.5 - 0.25;
+    let fy = (y - rect.y) * 0.5 - 0.25;
+    fx = fx < 0 ? 0 : fx > w - 1 ? w - 1 : fx;
+    fy = fy < 0 ? 0 : fy > h - 1 ? h - 1 : fy;
+
+    const x0 = fx | 0;
+    const y0 = fy | 0;
+    const x1 = x0 + 1 < w ? x0 + 1 : x0;
+    const y1 = y0 + 1 < h ? y0 + 1 : y0;
+    const tx = fx - x0;
+    const ty = fy - y0;
+
+    const top = plane[y0 * w + x0] + (plane[y0 * w + x1] - plane[y0 * w + x0]) * tx;
+    const bottom = plane[y1 * w + x0] + (plane[y1 * w + x1] - plane[y1 * w + x0]) * tx;
+    return top + (bottom - top) * ty;
   }
 
   /**
-   * Simple uniform Gaussian blur (for testing/comparison)
-   * Applies same blur radius to entire image
-   *
-   * @param imageData - Image to blur
-   * @param radius - Blur radius
-   * @returns Blurred image
+   * Blur one plane with a single σ (in place; returns the same array)
+   */
+  private blurPlane(
+    plane: Float32Array,
+    width: number,
+    height: number,
+    sigma: number
+  ): Float32Array {
+    const scratch = new Float32Array(plane.length);
+
+    if (sigma <= BlurEngine.EXACT_GAUSSIAN_MAX_SIGMA) {
+      const kernel = this.gaussianKernel(sigma);
+      this.convolveHorizontal(plane, scratch, width, height, kernel);
+      this.convolveVertical(scratch, plane, width, height, kernel);
+      return plane;
+    }
+
+    // Three box blurs whose combined variance matches σ²
+    for (const boxRadius of this.boxRadiiForGaussian(sigma, 3)) {
+      this.boxBlurHorizontal(plane, scratch, width, height, boxRadius);
+      this.boxBlurVertical(scratch, plane, width, height, boxRadius);
+    }
+
+    return plane;
+  }
+
+  /**
+   * Normalized 1D Gaussian kernel covering ±3σ
+   */
+  private gaussianKernel(sigma: number): Float32Array {
+    const half = Math.max(1, Math.ceil(sigma * 3));
+    const kernel = new Float32Array(half * 2 + 1);
+    let sum = 0;
+
+    for (let i = -half; i <= half; i++) {
+      const w = Math.exp(-(i * i) / (2 * sigma * sigma));
+      kernel[i + half] = w;
+      sum += w;
+    }
+
+    for (let i = 0; i < kernel.length; i++) {
+      kernel[i] /= sum;
+    }
+
+    return kernel;
+  }
+
+  /**
+   * Box radii for approximating a Gaussian with n successive box blurs
+   * (each box of width w adds variance (w² - 1) / 12)
    */
-  uniformBlur(imageData: ImageData, radius: number): ImageData {
-    const width = imageData.width;
-    const height = imageData.height;
-    const result = new ImageData(width, height);
+  private boxRadiiForGaussian(sigma: number, n: number): number[] {
+    const idealWidth = Math.sqrt((12 * sigma * sigma) / n + 1);
+    let lower = Math.floor(idealWidth);
+    if (lower % 2 === 0) lower--;
+    const upper = lower + 2;
+
+    // How many boxes use the lower width so the total variance matches
+    const idealCount =
+      (12 * sigma * sigma - n * lower * lower - 4 * n * lower - 3 * n) / (-4 * lower - 4);
+    const lowerCount = Math.round(idealCount);
+
+    const radii: number[] = [];
+    for (let i = 0; i < n; i++) {
+      radii.push(((i < lowerCount ? lower : upper) - 1) / 2);
+    }
+    return radii;
+  }
+
+  /**
+   * Horizontal convolution, edges clamped
+   * (clamping is only evaluated near the left/right borders)
+   */
+  private convolveHorizontal(
+    src: Float32Array,
+    dst: Float32Array,
+    width: number,
+    height: number,
+    kernel: Float32Array
+  ): void {
+    const half = (kernel.length - 1) / 2;
 
     for (let y = 0; y < height; y++) {
+      const row = y * width;
+
       for (let x = 0; x < width; x++) {
-        const blurred = this.gaussianBlurAtPixel(imageData, x, y, radius);
+        let sum = 0;
 
-        const idx = (y * width + x) * 4;
-        result.data[idx] = blurred.r;
-        result.data[idx + 1] = blurred.g;
-        result.data[idx + 2] = blurred.b;
-        result.data[idx + 3] = blurred.a;
+        if (x >= half && x < width - half) {
+          const base = row + x - half;
+          for (let k = 0; k < kernel.length; k++) {
+            sum += src[base + k] * kernel[k];
+          }
+        } else {
+          for (let k = -half; k <= half; k++) {
+            sum += src[row + clamp(x + k, 0, width - 1)] * kernel[k + half];
+          }
+        }
+
+        dst[row + x] = sum;
       }
     }
+  }
 
-    return result;
+  /**
+   * Vertical convolution, edges clamped
+   * (row-by-row so memory is read sequentially)
+   */
+  private convolveVertical(
+    src: Float32Array,
+    dst: Float32Array,
+    width: number,
+    height: number,
+    kernel: Float32Array
+  ): void {
+    const half = (kernel.length - 1) / 2;
+
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      dst.fill(0, row, row + width);
+
+      for (let k = -half; k <= half; k++) {
+        const srcRow = clamp(y + k, 0, height - 1) * width;
+        const w = kernel[k + half];
+
+        for (let x = 0; x < width; x++) {
+          dst[row + x] += src[srcRow + x] * w;
+        }
+      }
+    }
+  }
+
+  /**
+   * Horizontal box blur via running sums, edges clamped
+   * Cost per pixel is independent of the radius
+   */
+  private boxBlurHorizontal(
+    src: Float32Array,
+    dst: Float32Array,
+    width: number,
+    height: number,
+    radius: number
+  ): void {
+    const norm = 1 / (radius * 2 + 1);
+    const last = width - 1;
+
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+
+      // Window centered on x = 0, out-of-range samples clamped to the edge
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += src[row + clamp(k, 0, last)];
+      }
+
+      for (let x = 0; x < width; x++) {
+        dst[row + x] = sum * norm;
+
+        // Slide window: add entering sample, remove leaving sample
+        const enter = x + radius + 1 < last ? x + radius + 1 : last;
+        const leave = x - radius > 0 ? x - radius : 0;
+        sum += src[row + enter] - src[row + leave];
+      }
+    }
+  }
+
+  /**
+   * Vertical box blur via running sums, edges clamped
+   * (one running sum per column, advanced row by row)
+   */
+  private boxBlurVertical(
+    src: Float32Array,
+    dst: Float32Array,
+    width: number,
+    height: number,
+    radius: number
+  ): void {
+    const norm = 1 / (radius * 2 + 1);
+    const last = height - 1;
+    const sums = new Float32Array(width);
+
+    for (let k = -radius; k <= radius; k++) {
+      const row = clamp(k, 0, last) * width;
+      for (let x = 0; x < width; x++) {
+        sums[x] += src[row + x];
+      }
+    }
+
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      const enterRow = (y + radius + 1 < last ? y + radius + 1 : last) * width;
+      const leaveRow = (y - radius > 0 ? y - radius : 0) * width;
+
+      for (let x = 0; x < width; x++) {
+        dst[row + x] = sums[x] * norm;
+        sums[x] += src[enterRow + x] - src[leaveRow + x];
+      }
+    }
+  }
+
+  /**
+   * Split premultiplied RGBA into float planes
+   *
+   * If every visible pixel has the same (un-premultiplied) color, e.g. a
+   * plain black shadow, only the alpha plane is returned together with
+   * that color
+   */
+  private toPlanes(imageData: FloatPixelBuffer): {
+    planes: Float32Array[];
+    color: [number, number, number] | null;
+  } {
+    const pixels = imageData.data;
+    const n = imageData.width * imageData.height;
+    const alpha = new Float32Array(n);
+    let color: [number, number, number] | null = null;
+    let uniform = true;
+
+    for (let i = 0; i < n; i++) {
+      const p = i * 4;
+      const a = pixels[p + 3];
+      alpha[i] = a;
+      if (a === 0 || !uniform) continue;
+
+      if (!color) {
+        color = [pixels[p] / a, pixels[p + 1] / a, pixels[p + 2] / a];
+      } else if (
+        Math.abs(pixels[p] - color[0] * a) > COLOR_TOLERANCE ||
+        Math.abs(pixels[p + 1] - color[1] * a) > COLOR_TOLERANCE ||
+        Math.abs(pixels[p + 2] - color[2] * a) > COLOR_TOLERANCE
+      ) {
+        uniform = false;
+      }
+    }
+
+    if (uniform) {
+      return { planes: [alpha], color: color ?? [0, 0, 0] };
+    }
+
+    const planes = [new Float32Array(n), new Float32Array(n), new Float32Array(n), alpha];
+    for (let i = 0; i < n; i++) {
+      const p = i * 4;
+      planes[0][i] = pixels[p];
+      planes[1][i] = pixels[p + 1];
+      planes[2][i] = pixels[p + 2];
+    }
+
+    return { planes, color: null };
+  }
+
+  /**
+   * Bounding box of all pixels with non-zero alpha (null if none)
+   */
+  private findAlphaBounds(imageData: FloatPixelBuffer): Rect | null {
+    const bounds = new BoundsTracker(1);
+
+    for (let y = 0; y < imageData.height; y++) {
+      for (let x = 0; x < imageData.width; x++) {
+        if (imageData.data[(y * imageData.width + x) * 4 + 3] > 0) {
+          bounds.include(0, x, y);
+        }
+      }
+    }
+
+    return bounds.toRects()[0];
   }
+
+  /**
+   * Kernel reach for a blur radius: 3σ = 1.5 * radius, plus rounding slack
+   * (how far a pixel's blur reads from, e.g. the overlap between tiles)
+   */
+  getHalo(radius: number): number {
+    return Math.ceil(radius * 1.5) + 2;
+  }
+
+  /**
+   * Copy a rectangle out of a plane; parts outside the image repeat the edge pixels
+   */
+  private cropPlane(plane: Float32Array, width: number, height: number, rect: Rect): Float32Array {
+    const out = new Float32Array(rect.w * rect.h);
+    const inside = rect.x >= 0 && rect.x + rect.w <= width;
+
+    for (let y = 0; y < rect.h; y++) {
+      const row = clamp(rect.y + y, 0, height - 1) * width;
+
+      if (inside) {
+        out.set(plane.subarray(row + rect.x, row + rect.x + rect.w), y * rect.w);
+        continue;
+      }
+
+      for (let x = 0; x < rect.w; x++) {
+        out[y * rect.w + x] = plane[row + clamp(rect.x + x, 0, width - 1)];
+      }
+    }
+
+    return out;
+  }
+
+  /**
+   * Crop and halve a plane: each output pixel averages a 2x2 block
+   * (parts outside the image repeat the edge pixels)
+   */
+  private downsamplePlane(plane: Float32Array, width: number, height: number, rect: Rect): Float32Array {
+    const w = Math.ceil(rect.w / 2);
+    const h = Math.ceil(rect.h / 2);
+    const out = new Float32Array(w * h);
+
+    // Source column of each output column's left/right sample
+    const left = new Int32Array(w);
+    const right = new Int32Array(w);
+    for (let x = 0; x < w; x++) {
+      left[x] = clamp(rect.x + x * 2, 0, width - 1);
+      right[x] = clamp(rect.x + x * 2 + 1, 0, width - 1);
+    }
+
+    for (let y = 0; y < h; y++) {
+      const row0 = clamp(rect.y + y * 2, 0, height - 1) * width;
+      const row1 = clamp(rect.y + y * 2 + 1, 0, height - 1) * width;
+
+      for (let x = 0; x < w; x++) {
+        const x0 = left[x];
+        const x1 = right[x];
+        out[y * w + x] = (plane[row0 + x0] + plane[row0 + x1] + plane[row1 + x0] + plane[row1 + x1]) * 0.25;
+      }
+    }
+
+    return out;
+  }
+
+  private unionRect(a: Rect | null, b: Rect | null): Rect | null {
+    if (!a) return b;
+    if (!b) return a;
+
+    const x0 = Math.min(a.x, b.x);
+    const y0 = Math.min(a.y, b.y);
+    const x1 = Math.max(a.x + a.w, b.x + b.w);
+    const y1 = Math.max(a.y + a.h, b.y + b.h);
+    return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+  }
+
+  private expandRect(rect: Rect, margin: number, width: number, height: number): Rect {
+    const x0 = Math.max(0, rect.x - margin);
+    const y0 = Math.max(0, rect.y - margin);
+    const x1 = Math.min(width, rect.x + rect.w + margin);
+    const y1 = Math.min(height, rect.y + rect.h + margin);
+    return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+  }
+}
+
+/** Axis-aligned pixel rectangle */
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
 }
+
+/** One level of the Gaussian stack, computed over a sub-rectangle */
+interface Level {
+  planes: Float32Array[];
+  /** Covered area in full-resolution pixels */
+  rect: Rect;
+  /** 1 = full resolution, 2 = half resolution (planes are ceil(w/2) x ceil(h/2)) */
+  scale: 1 | 2;
+}
+
+/**
+ * Grows several bounding boxes point by point without allocating
+ */
+class BoundsTracker {
+  private minX: Int32Array;
+  private minY: Int32Array;
+  private maxX: Int32Array;
+  private maxY: Int32Array;
+
+  constructor(count: number) {
+    this.minX = new Int32Array(count).fill(0x7fffffff);
+    this.minY = new Int32Array(count).fill(0x7fffffff);
+    this.maxX = new Int32Array(count).fill(-1);
+    this.maxY = new Int32Array(count).fill(-1);
+  }
+
+  include(index: number, x: number, y: number): void {
+    if (x < this.minX[index]) this.minX[index] = x;
+    if (x > this.maxX[index]) this.maxX[index] = x;
+    if (y < this.minY[index]) this.minY[index] = y;
+    if (y > this.maxY[index]) this.maxY[index] = y;
+  }
+
+  /** One rectangle per index; null where no point was included */
+  toRects(): Array<Rect | null> {
+    const rects: Array<Rect | null> = [];
+    for (let i = 0; i < this.minX.length; i++) {
+      rects.push(this.maxX[i] < 0 ? null : {
+        x: this.minX[i],
+        y: this.minY[i],
+        w: this.maxX[i] - this.minX[i] + 1,
+        h: this.maxY[i] - this.minY[i] + 1
+      });
+    }
+    return rects;
+  }
+}
+
+/** Marker for pixels outside the active region */
+const NO_PAIR = 255;
+
+/** Largest premultiplied channel difference still counted as the same color (float rounding) */
+const COLOR_TOLERANCE = 1e-6;
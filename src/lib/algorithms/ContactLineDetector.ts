@@ -1,73 +1,171 @@
 /**
- * Detects contact line (lowest visible silhouette pixels)
+ * Detects where the silhouette rests on the ground
  */
 
-import type { ContactLine } from '../core/types';
+import type { ContactLine, ContactSegment, PixelBuffer } from '../core/types';
+import { createPixelBuffer } from '../utils/imageData';
 
 /**
  * ContactLineDetector - Finds the "ground contact" points of the silhouette
  *
  * Algorithm:
- * - For each column (x), scan from bottom to top
- * - Find the lowest opaque pixel (highest y coordinate)
- * - These points form the contact line where shadow should be sharpest
+ * - Label the connected shapes of the silhouette (8-connected); specks
+ *   under 1% of the largest shape's area are ignored
+ * - For each column (x) and shape, find the shape's lowest pixel there
+ * - Keep it only if it lies within a tolerance band above the shape's
+ *   overall lowest pixel: chair legs and feet touch the ground, the seat
+ *   between the legs or a hanging arm do not
+ * - Kept points in neighbouring columns of the same shape form a
+ *   contact segment (one per leg, foot or base)
+ *
+ * Every shape gets its own band, so several subjects standing at
+ * different depths each keep their contact. A hovering shape keeps only
+ * its lowest points; use a manual contact line (fromPolylines) when it
+ * should not touch the ground at all.
  *
  * Assumption: Ground plane is roughly aligned with image bottom
  */
 export class ContactLineDetector {
+  /** Default band height as a fraction of the shape's height */
+  private static readonly TOLERANCE_RATIO = 0.05;
+
+  /** Smallest default band height (pixels), absorbs anti-aliasing and mask noise */
+  private static readonly MIN_TOLERANCE = 3;
+
+  /** Shapes smaller than this fraction of the largest one are noise */
+  private static readonly MIN_AREA_RATIO = 0.01;
+
   /**
    * Detect contact line from binary silhouette mask
    *
    * @param mask - Binary silhouette mask (1 = opaque, 0 = transparent)
    * @param width - Image width
    * @param height - Image height
-   * @returns ContactLine with array of contact points
+   * @param tolerance - Band height above each shape's lowest pixel (pixels;
+   *                    default 5% of the shape's height, at least 3)
+   * @returns ContactLine with contact points (sorted by x) and segments
    */
-  detect(mask: Uint8Array, width: number, height: number): ContactLine {
+  detect(mask: Uint8Array, width: number, height: number, tolerance?: number): ContactLine {
+    const { labels, components } = this.labelComponents(mask, width, height);
+
+    let largest = 0;
+    for (const component of components) {
+      largest = Math.max(largest, component.area);
+    }
+
+    // Lowest y that still counts as contact, per shape (Infinity = ignored)
+    const bandTop = components.map((component) => {
+      if (component.area < largest * ContactLineDetector.MIN_AREA_RATIO) return Infinity;
+
+      const band = tolerance ?? Math.max(
+        ContactLineDetector.MIN_TOLERANCE,
+        (component.maxY - component.minY + 1) * ContactLineDetector.TOLERANCE_RATIO
+      );
+      return component.maxY - band;
+    });
+
     const points: Array<{ x: number; y: number }> = [];
+    const segments: ContactSegment[] = [];
+    const open = new Array<ContactSegment | null>(components.length).fill(null);
+    const lastX = new Int32Array(components.length).fill(-2);
+    const seen = new Int32Array(components.length).fill(-1);
 
-    // For each column, find the lowest opaque pixel
     for (let x = 0; x < width; x++) {
-      let lowestY = -1;
-
-      // Scan from bottom to top (high y to low y)
+      // Scan from bottom to top: the first pixel of a shape is its lowest in this column
       for (let y = height - 1; y >= 0; y--) {
-        const idx = y * width + x;
+        const label = labels[y * width + x] - 1;
+        if (label < 0 || seen[label] === x) continue;
+        seen[label] = x;
+
+        if (y < bandTop[label]) continue;
+
+        const point = { x, y };
+        points.push(point);
 
-        // Check if pixel is opaque
-        if (mask[idx] === 1) {
-          // Found the lowest visible pixel in this column
-          lowestY = y;
-          break; // Stop scanning this column
+        // A gap in the columns (or a column outside the band) starts a new segment
+        let segment = open[label];
+        if (!segment || lastX[label] !== x - 1) {
+          segment = { points: [] };
+          segments.push(segment);
+          open[label] = segment;
         }
+        segment.points.push(point);
+        lastX[label] = x;
       }
+    }
 
-      // If we found an opaque pixel in this column, add it to contact line
-      if (lowestY >= 0) {
-        points.push({ x, y: lowestY });
-      }
+    return { points, segments };
+  }
+
+  /**
+   * Build a contact line from manually drawn polylines
+   * (e.g. where a hovering or partly hidden subject should meet the ground)
+   *
+   * @param polylines - One polyline per contact segment (image pixels)
+   * @param width - Image width
+   * @param height - Image height
+   * @returns ContactLine with every pixel along the polylines (clipped to
+   *          the image), one segment per polyline
+   */
+  fromPolylines(
+    polylines: Array<Array<{ x: number; y: number }>>,
+    width: number,
+    height: number
+  ): ContactLine {
+    const segments: ContactSegment[] = [];
+
+    for (const polyline of polylines) {
+      const segmentPoints: Array<{ x: number; y: number }> = [];
+      const add = (x: number, y: number): void => {
+        if (x < 0 || x >= width || y < 0 || y >= height) return;
+        const last = segmentPoints[segmentPoints.length - 1];
+        if (last && last.x === x && last.y === y) return;
+        segmentPoints.push({ x, y });
+      };
+
+      polyline.forEach((vertex, i) => {
+        const previous = i > 0 ? polyline[i - 1] : vertex;
+        const steps = Math.max(1, Math.ceil(Math.max(
+          Math.abs(vertex.x - previous.x),
+          Math.abs(vertex.y - previous.y)
+        )));
+
+        for (let s = i > 0 ? 1 : 0; s <= steps; s++) {
+          const t = s / steps;
+          add(
+            Math.round(previous.x + (vertex.x - previous.x) * t),
+            Math.round(previous.y + (vertex.y - previous.y) * t)
+          );
+        }
+      });
+
+      if (segmentPoints.length > 0) segments.push({ points: segmentPoints });
     }
 
-    return { points };
+    const points = segments
+      .flatMap((segment) => segment.points)
+      .sort((a, b) => a.x - b.x || b.y - a.y);
+
+    return { points, segments };
   }
 
   /**
    * Visualize contact line for debugging
-   * Returns ImageData with contact line marked in red
+   * Returns a pixel buffer with contact line marked in red
    *
    * @param mask - Binary silhouette mask
    * @param contactLine - Contact line to visualize
    * @param width - Image width
    * @param height - Image height
-   * @returns ImageData with contact line visualization
+   * @returns PixelBuffer with contact line visualization
    */
   visualizeContactLine(
     mask: Uint8Array,
     contactLine: ContactLine,
     width: number,
     height: number
-  ): ImageData {
-    const imageData = new ImageData(width, height);
+  ): PixelBuffer {
+    const imageData = createPixelBuffer(width, height);
     const pixels = imageData.data;
 
     // First, render the mask in grayscale
@@ -125,4 +223,57 @@ export class ContactLineDetector {
 
     return { minX, maxX, minY, maxY };
   }
+
+  /**
+   * Label the 8-connected shapes of the mask
+   *
+   * @returns Label per pixel (0 = background, i + 1 = components[i]) and
+   *          each shape's area and vertical extent
+   */
+  private labelComponents(
+    mask: Uint8Array,
+    width: number,
+    height: number
+  ): {
+    labels: Int32Array;
+    components: Array<{ area: number; minY: number; maxY: number }>;
+  } {
+    const labels = new Int32Array(width * height);
+    const components: Array<{ area: number; minY: number; maxY: number }> = [];
+    const stack = new Int32Array(width * height);
+
+    for (let start = 0; start < mask.length; start++) {
+      if (mask[start] !== 1 || labels[start] !== 0) continue;
+
+      const label = components.length + 1;
+      const component = { area: 0, minY: height, maxY: -1 };
+      components.push(component);
+
+      // Flood fill with an explicit stack
+      let top = 0;
+      stack[top++] = start;
+      labels[start] = label;
+
+      while (top > 0) {
+        const idx = stack[--top];
+        const x = idx % width;
+        const y = (idx - x) / width;
+
+        component.area++;
+        component.minY = Math.min(component.minY, y);
+        component.maxY = Math.max(component.maxY, y);
+
+        for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+          for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+            const n = ny * width + nx;
+            if (mask[n] !== 1 || labels[n] !== 0) continue;
+            labels[n] = label;
+            stack[top++] = n;
+          }
+        }
+      }
+    }
+
+    return { labels, components };
+  }
 }
@@ -2,89 +2,238 @@
  * Computes distance transform from contact line
  */
 
-import type { ContactLine, DistanceMap } from '../core/types';
-import { distance } from '../utils/math';
+import type { ContactLine, DistanceMap, PixelBuffer } from '../core/types';
+import { createPixelBuffer } from '../utils/imageData';
+
+/** Direction to measure along: a unit vector, or radial away from a point */
+type Direction = { x: number; y: number } | { fromX: number; fromY: number };
 
 /**
  * DistanceTransform - Calculate distance from each pixel to contact line
  *
- * Algorithm:
- * - For each pixel in the silhouette mask
- * - Calculate Euclidean distance to nearest contact line point
- * - Store in Float32Array distance map
+ * Algorithm (Felzenszwalb & Huttenlocher exact Euclidean distance transform):
+ * - Seeds = contact line points
+ * - Pass 1, per column: distance to the nearest seed in that column
+ * - Pass 2, per row: lower envelope of the parabolas (x - q)² + g(q)²,
+ *   which yields the exact 2D distance and the nearest seed itself
+ * - Defined for every pixel, so the projected shadow (which lies outside
+ *   the silhouette) and the area the blur reaches into are both covered
+ *
+ * Distance modes:
+ * - Euclidean: straight-line distance to the nearest contact point
+ * - Along a direction: offset from the nearest contact point projected
+ *   onto the shadow direction (how far "down the shadow" a pixel lies);
+ *   pixels on the light side of the contact line get 0. For point lights
+ *   the direction is radial, away from the light
  *
  * Purpose:
  * - Distance determines opacity falloff (near = dark, far = fade)
  * - Distance determines blur radius (near = sharp, far = blurry)
  *
- * Complexity: O(n * m) where n = pixels, m = contact points
- * Could optimize with 2-pass algorithm, but clarity is prioritized
+ * Complexity: O(n) where n = pixels (independent of contact point count)
  */
 export class DistanceTransform {
   /**
    * Compute distance transform from contact line
    *
-   * @param mask - Binary silhouette mask (1 = compute distance, 0 = skip)
    * @param contactLine - Contact line points
    * @param width - Image width
    * @param height - Image height
+   * @param direction - Optional direction to measure along; Euclidean if omitted
+   *                    - { x, y }: unit vector, e.g. the projected shadow direction
+   *                    - { fromX, fromY }: radial, away from a point (a point
+   *                      light's ground position) through the nearest contact point
    * @returns DistanceMap with distance from contact line for each pixel
+   *          (Infinity everywhere if no contact point lies inside the image)
    */
   compute(
-    mask: Uint8Array,
     contactLine: ContactLine,
     width: number,
-    height: number
+    height: number,
+    direction?: Direction
+  ): DistanceMap;
+
+  /**
+   * Euclidean distance for the pixels of a mask, 0 elsewhere
+   *
+   * @deprecated Pass the contact line first; distances are defined for
+   *             every pixel, so the mask is no longer needed
+   */
+  compute(mask: Uint8Array, contactLine: ContactLine, width: number, height: number): DistanceMap;
+
+  compute(
+    ...args:
+      | [ContactLine, number, number, Direction?]
+      | [Uint8Array, ContactLine, number, number]
   ): DistanceMap {
-    // Initialize distance map with zeros
+    if (args[0] instanceof Uint8Array) {
+      const [mask, contactLine, width, height] = args as [Uint8Array, ContactLine, number, number];
+      const distanceMap = this.compute(contactLine, width, height);
+      for (let i = 0; i < mask.length; i++) {
+        if (mask[i] === 0) distanceMap.data[i] = 0;
+      }
+      return distanceMap;
+    }
+
+    const [contactLine, width, height, direction] =
+      args as [ContactLine, number, number, Direction?];
     const distances = new Float32Array(width * height);
+    const seeds = contactLine.points
+      .map((point) => ({ x: Math.round(point.x), y: Math.round(point.y) }))
+      .filter((point) => point.x >= 0 && point.x < width && point.y >= 0 && point.y < height);
 
-    // If no contact points, all distances are 0
-    if (contactLine.points.length === 0) {
+    // No contact points: every pixel is infinitely far from the contact (no shadow)
+    if (seeds.length === 0) {
+      distances.fill(Infinity);
       return { data: distances, width, height };
     }
 
-    // For each pixel in the image
+    const nearestRow = this.nearestSeedPerColumn(seeds, width, height);
+    const nearest = this.nearestSeedPerPixel(nearestRow, width, height);
+
+    // Nearest seed is stored as a pixel index
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
         const idx = y * width + x;
+        const seed = nearest[idx];
+        const seedX = seed % width;
+        const seedY = Math.floor(seed / width);
+        const offsetX = x - seedX;
+        const offsetY = y - seedY;
 
-        // Skip transparent pixels (not part of silhouette)
-        if (mask[idx] === 0) {
-          distances[idx] = 0;
+        if (!direction) {
+          distances[idx] = Math.sqrt(offsetX * offsetX + offsetY * offsetY);
           continue;
         }
 
-        // Find minimum distance to any contact line point
-        let minDist = Infinity;
-
-        for (const point of contactLine.points) {
-          // Calculate Euclidean distance from (x, y) to contact point
-          const dist = distance(x, y, point.x, point.y);
-          minDist = Math.min(minDist, dist);
+        let dirX: number;
+        let dirY: number;
+        if ('fromX' in direction) {
+          const rayX = seedX - direction.fromX;
+          const rayY = seedY - direction.fromY;
+          const length = Math.hypot(rayX, rayY) || 1;
+          dirX = rayX / length;
+          dirY = rayY / length;
+        } else {
+          dirX = direction.x;
+          dirY = direction.y;
         }
 
-        // Store distance for this pixel
-        distances[idx] = minDist;
+        distances[idx] = Math.max(0, offsetX * dirX + offsetY * dirY);
       }
     }
 
     return { data: distances, width, height };
   }
 
+  /**
+   * Pass 1: for every pixel, the row of the nearest seed in its own column
+   * (-1 if the column has no seed)
+   */
+  private nearestSeedPerColumn(
+    seeds: ContactLine['points'],
+    width: number,
+    height: number
+  ): Int32Array {
+    const nearestRow = new Int32Array(width * height).fill(-1);
+
+    for (const point of seeds) {
+      nearestRow[point.y * width + point.x] = point.y;
+    }
+
+    for (let x = 0; x < width; x++) {
+      // Downward scan: nearest seed above (or on) each pixel
+      let last = -1;
+      for (let y = 0; y < height; y++) {
+        const idx = y * width + x;
+        if (nearestRow[idx] === y) last = y;
+        nearestRow[idx] = last;
+      }
+
+      // Upward scan: keep whichever of above/below is closer
+      last = -1;
+      for (let y = height - 1; y >= 0; y--) {
+        const idx = y * width + x;
+        const above = nearestRow[idx];
+        if (above === y) {
+          last = y;
+          continue;
+        }
+        if (last >= 0 && (above < 0 || last - y < y - above)) {
+          nearestRow[idx] = last;
+        }
+      }
+    }
+
+    return nearestRow;
+  }
+
+  /**
+   * Pass 2: per row, lower envelope of parabolas centered on each column,
+   * each raised by that column's squared distance from pass 1
+   *
+   * @returns Pixel index of the nearest seed, for every pixel
+   */
+  private nearestSeedPerPixel(
+    nearestRow: Int32Array,
+    width: number,
+    height: number
+  ): Int32Array {
+    const nearest = new Int32Array(width * height);
+    const f = new Float64Array(width);
+    const v = new Int32Array(width);        // Columns of the parabolas in the envelope
+    const z = new Float64Array(width + 1);  // Boundaries between envelope parabolas
+
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      let k = -1;
+
+      for (let q = 0; q < width; q++) {
+        const seedRow = nearestRow[row + q];
+        if (seedRow < 0) continue; // Column without seeds: no parabola
+
+        f[q] = (y - seedRow) * (y - seedRow);
+
+        // Drop parabolas hidden by the new one
+        let s = 0;
+        while (k >= 0) {
+          const p = v[k];
+          s = (f[q] + q * q - (f[p] + p * p)) / (2 * (q - p));
+          if (s > z[k]) break;
+          k--;
+        }
+
+        k++;
+        v[k] = q;
+        z[k] = k === 0 ? -Infinity : s;
+        z[k + 1] = Infinity;
+      }
+
+      // Walk the envelope left to right
+      let j = 0;
+      for (let x = 0; x < width; x++) {
+        while (z[j + 1] < x) j++;
+        const column = v[j];
+        nearest[row + x] = nearestRow[row + column] * width + column;
+      }
+    }
+
+    return nearest;
+  }
+
   /**
    * Visualize distance map for debugging
    * Maps distances to grayscale (near = dark, far = bright)
    *
    * @param distanceMap - Distance map to visualize
    * @param maxDistance - Maximum distance for normalization
-   * @returns ImageData with distance visualization
+   * @returns PixelBuffer with distance visualization
    */
   visualizeDistanceMap(
     distanceMap: DistanceMap,
     maxDistance: number
-  ): ImageData {
-    const imageData = new ImageData(distanceMap.width, distanceMap.height);
+  ): PixelBuffer {
+    const imageData = createPixelBuffer(distanceMap.width, distanceMap.height);
     const pixels = imageData.data;
 
     for (let i = 0; i < distanceMap.data.length; i++) {
@@ -109,12 +258,12 @@ export class DistanceTransform {
    * (useful for tuning shadow parameters)
    *
    * @param distanceMap - Distance map
-   * @param mask - Silhouette mask (to only consider foreground pixels)
+   * @param mask - Region to consider, e.g. the shadow coverage (> 0 = include)
    * @returns Statistics { min, max, average }
    */
   getStatistics(
     distanceMap: DistanceMap,
-    mask: Uint8Array
+    mask: ArrayLike<number>
   ): { min: number; max: number; average: number } {
     let min = Infinity;
     let max = -Infinity;
@@ -122,7 +271,7 @@ export class DistanceTransform {
     let count = 0;
 
     for (let i = 0; i < distanceMap.data.length; i++) {
-      // Only consider pixels in the silhouette
+      // Only consider pixels in the region
       if (mask[i] === 0) continue;
 
       const dist = distanceMap.data[i];
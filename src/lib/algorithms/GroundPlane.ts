@@ -0,0 +1,167 @@
+/**
+ * Maps between image pixels and the floor plane seen in the background
+ */
+
+import type { GroundPlaneConfig } from '../core/types';
+import type { Homography } from '../utils/homography';
+import { applyHomography, invertHomography, solveHomography } from '../utils/homography';
+import { degreesToRadians } from '../utils/math';
+
+/**
+ * GroundPlane - Image ↔ floor coordinates through a homography
+ *
+ * Floor coordinates:
+ * - X grows to the right, Y grows toward the camera (down in the image),
+ *   so light angles mean the same on the floor as in the image
+ * - Horizon / tilt models use camera-height units (camera 1 unit above floor)
+ * - Four-point model uses the floor rectangle's depth as the unit
+ *
+ * Horizon model (camera without roll, image plane vertical):
+ * - X = (x - cx) / (y - horizonY)
+ * - Y = -focalLength / (y - horizonY)
+ * - Rows at or above the horizon have no floor point
+ *
+ * Heights:
+ * - An upright subject at distance Z spans as many pixels per floor unit
+ *   vertically as horizontally, so image heights convert to floor units
+ *   with the horizontal scale at the subject's contact point
+ */
+export class GroundPlane {
+  private toGroundMatrix: Homography;
+  private toImageMatrix: Homography;
+
+  /**
+   * @param config - Horizon line, camera tilt or four floor points
+   * @param width - Image width
+   * @param height - Image height
+   * @param origin - Where the pixels this instance maps begin in the image
+   *                 (for a tile of it; default: the whole image)
+   * @throws Error if the floor points do not describe a plane
+   */
+  constructor(
+    config: GroundPlaneConfig,
+    width: number,
+    height: number,
+    origin: { x: number; y: number } = { x: 0, y: 0 }
+  ) {
+    let matrix: Homography | null;
+
+    if ('floorPoints' in config) {
+      const aspect = config.floorAspect ?? 1;
+      matrix = solveHomography(config.floorPoints, [
+        { x: 0, y: 0 },       // far-left
+        { x: aspect, y: 0 },  // far-right
+        { x: aspect, y: 1 },  // near-right
+        { x: 0, y: 1 }        // near-left
+      ]);
+
+      if (!matrix) {
+        throw new Error('Ground plane floorPoints must be four points, no three on one line');
+      }
+
+      // Orient w to be positive on the floor (the matrix is only defined up to sign)
+      const center = config.floorPoints.reduce(
+        (sum, point) => ({ x: sum.x + point.x / 4, y: sum.y + point.y / 4 }),
+        { x: 0, y: 0 }
+      );
+      if (applyHomography(matrix, center.x, center.y).w < 0) {
+        matrix = matrix.map((value) => -value) as Homography;
+      }
+    } else {
+      const focalLength = config.focalLength ?? Math.max(width, height);
+      const centerX = width / 2;
+
+      // Tilting the camera down raises the horizon above the image center
+      const horizonY = 'horizonY' in config
+        ? config.horizonY
+        : height / 2 - focalLength * Math.tan(degreesToRadians(config.cameraTilt));
+
+      matrix = [
+        1, 0, -centerX,
+        0, 0, -focalLength,
+        0, 1, -horizonY
+      ];
+    }
+
+    // Tile pixels: translate to image pixels first
+    if (origin.x !== 0 || origin.y !== 0) {
+      const m = matrix;
+      matrix = [
+        m[0], m[1], m[2] + m[0] * origin.x + m[1] * origin.y,
+        m[3], m[4], m[5] + m[3] * origin.x + m[4] * origin.y,
+        m[6], m[7], m[8] + m[6] * origin.x + m[7] * origin.y
+      ];
+    }
+
+    const inverse = invertHomography(matrix);
+    if (!inverse) {
+      throw new Error('Ground plane is degenerate (cannot be inverted)');
+    }
+
+    this.toGroundMatrix = matrix;
+    this.toImageMatrix = inverse;
+  }
+
+  /**
+   * Floor point under an image pixel
+   *
+   * @returns Floor coordinates, or null at/above the horizon
+   */
+  toGround(x: number, y: number): { x: number; y: number } | null {
+    const point = applyHomography(this.toGroundMatrix, x, y);
+    return point.w > 1e-9 ? { x: point.x, y: point.y } : null;
+  }
+
+  /**
+   * Image pixel showing a floor point
+   *
+   * @returns Image coordinates, or null if the point is behind the camera
+   */
+  toImage(x: number, y: number): { x: number; y: number } | null {
+    const point = applyHomography(this.toImageMatrix, x, y);
+    return point.w > 1e-9 ? { x: point.x, y: point.y } : null;
+  }
+
+  /**
+   * Floor units per image pixel at an image point (measured horizontally)
+   *
+   * @returns Scale, or null at/above the horizon
+   */
+  scaleAt(x: number, y: number): number | null {
+    const left = this.toGround(x - 0.5, y);
+    const right = this.toGround(x + 0.5, y);
+    if (!left || !right) return null;
+
+    return Math.hypot(right.x - left.x, right.y - left.y);
+  }
+
+  /**
+   * Direction in the image of a floor direction, at an image point
+   * (perspective bends floor directions toward their vanishing point)
+   *
+   * @returns Unit image vector, or null at/above the horizon
+   */
+  imageDirectionAt(
+    x: number,
+    y: number,
+    floorDirX: number,
+    floorDirY: number
+  ): { x: number; y: number } | null {
+    const start = this.toGround(x, y);
+    const scale = this.scaleAt(x, y);
+    if (!start || scale === null) return null;
+
+    // Step about one pixel along the floor direction
+    const length = Math.hypot(floorDirX, floorDirY) || 1;
+    const end = this.toImage(
+      start.x + (floorDirX / length) * scale,
+      start.y + (floorDirY / length) * scale
+    );
+    if (!end) return null;
+
+    const dx = end.x - x;
+    const dy = end.y - y;
+    const imageLength = Math.hypot(dx, dy);
+    return imageLength > 0 ? { x: dx / imageLength, y: dy / imageLength } : null;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Edge-aware upsampling of shadow layers computed at a working resolution
+ */
+
+import type { FloatPixelBuffer } from '../core/types';
+import { createFloatPixelBuffer } from '../utils/imageData';
+
+/**
+ * GuidedUpsampler - Joint bilateral upsampling guided by foreground alpha
+ *
+ * A shadow layer computed at a reduced size is scaled back up to the full
+ * size. Plain bilinear upsampling smears the low-resolution layer across
+ * the subject's outline, so the shadow edge at the feet comes out blurred
+ * and offset by up to one working pixel.
+ *
+ * Algorithm (joint bilateral upsampling):
+ * - Each full-size pixel blends its 2x2 low-resolution neighbours with
+ *   bilinear weights
+ * - Each weight is multiplied by a range term comparing the full-size
+ *   foreground coverage at the pixel with the working-size coverage at
+ *   the neighbour, so samples from the other side of the outline barely
+ *   count
+ * - If every neighbour is on the other side, plain bilinear is used
+ */
+export class GuidedUpsampler {
+  /** Range sigma over coverage differences (0-1) */
+  private static readonly SIGMA = 0.1;
+
+  /** Entries in the range weight lookup table (coverage difference 0-1) */
+  private static readonly LUT_SIZE = 256;
+
+  /** Range weights for |coverage difference| quantized to LUT_SIZE steps */
+  private rangeWeights: Float32Array;
+
+  constructor() {
+    const size = GuidedUpsampler.LUT_SIZE;
+    const sigma = GuidedUpsampler.SIGMA;
+    this.rangeWeights = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const d = i / (size - 1);
+      this.rangeWeights[i] = Math.exp(-(d * d) / (2 * sigma * sigma));
+    }
+  }
+
+  /**
+   * Upsample a layer to the full size
+   *
+   * @param layer - Layer at the working size (premultiplied)
+   * @param lowGuide - Foreground coverage at the working size (0-1)
+   * @param fullGuide - Foreground coverage at the full size (0-1)
+   * @param width - Full width
+   * @param height - Full height
+   * @returns Layer at the full size
+   */
+  upsample(
+    layer: FloatPixelBuffer,
+    lowGuide: Float32Array,
+    fullGuide: Float32Array,
+    width: number,
+    height: number
+  ): FloatPixelBuffer {
+    const result = createFloatPixelBuffer(width, height);
+    const lowWidth = layer.width;
+    const lowHeight = layer.height;
+    const src = layer.data;
+    const lut = this.rangeWeights;
+    const lutMax = GuidedUpsampler.LUT_SIZE - 1;
+
+    const scaleX = lowWidth / width;
+    const scaleY = lowHeight / height;
+
+    // Column sample positions are the same on every row
+    const columnX0 = new Int32Array(width);
+    const columnX1 = new Int32Array(width);
+    const columnFx = new Float32Array(width);
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(Math.max((x + 0.5) * scaleX - 0.5, 0), lowWidth - 1);
+      columnX0[x] = Math.floor(sx);
+      columnX1[x] = Math.min(columnX0[x] + 1, lowWidth - 1);
+      columnFx[x] = sx - columnX0[x];
+    }
+
+    const neighbours = new Int32Array(4);
+    const weights = new Float32Array(4);
+    const guided = new Float32Array(4);
+
+    for (let y = 0; y < height; y++) {
+      // Sample at pixel centers
+      const sy = Math.min(Math.max((y + 0.5) * scaleY - 0.5, 0), lowHeight - 1);
+      const y0 = Math.floor(sy);
+      const y1 = Math.min(y0 + 1, lowHeight - 1);
+      const fy = sy - y0;
+
+      for (let x = 0; x < width; x++) {
+        const x0 = columnX0[x];
+        const x1 = columnX1[x];
+        const fx = columnFx[x];
+
+        neighbours[0] = y0 * lowWidth + x0;
+        neighbours[1] = y0 * lowWidth + x1;
+        neighbours[2] = y1 * lowWidth + x0;
+        neighbours[3] = y1 * lowWidth + x1;
+
+        // Nothing to spread here
+        if (
+          src[neighbours[0] * 4 + 3] === 0 && src[neighbours[1] * 4 + 3] === 0 &&
+          src[neighbours[2] * 4 + 3] === 0 && src[neighbours[3] * 4 + 3] === 0
+        ) {
+          continue;
+        }
+
+        weights[0] = (1 - fx) * (1 - fy);
+        weights[1] = fx * (1 - fy);
+        weights[2] = (1 - fx) * fy;
+        weights[3] = fx * fy;
+
+        const guide = fullGuide[y * width + x];
+        let total = 0;
+        for (let n = 0; n < 4; n++) {
+          const difference = Math.abs(guide - lowGuide[neighbours[n]]);
+          guided[n] = weights[n] * lut[Math.min(lutMax, Math.round(difference * lutMax))];
+          total += guided[n];
+        }
+
+        // Every neighbour across the outline: fall back to bilinear
+        const bilateral = total > 1e-4;
+        const out = (y * width + x) * 4;
+        for (let n = 0; n < 4; n++) {
+          const weight = bilateral ? guided[n] / total : weights[n];
+          if (weight === 0) continue;
+
+          const idx = neighbours[n] * 4;
+          result.data[out] += src[idx] * weight;
+          result.data[out + 1] += src[idx + 1] * weight;
+          result.data[out + 2] += src[idx + 2] * weight;
+          result.data[out + 3] += src[idx + 3] * weight;
+        }
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Reads the background depth map as the surface shadows land on
+ */
+
+import type { ContactLine, DepthNear, LightVector, PixelBuffer, PointLight } from '../core/types';
+import type { GroundPlane } from './GroundPlane';
+
+/**
+ * HeightField - Heightfield shadow receiver built from a depth map
+ *
+ * Heights:
+ * - height = nearness * scale (nearer = higher, as seen from above)
+ * - Measured from the floor the subject stands on (median height under
+ *   the contact line), so that floor is at height 0
+ *
+ * Casting (receiver q at height h; the ray toward the light rises by
+ * `rise` pixels per pixel travelled, tan(elevation) for directional lights):
+ * - The light ray through q would have reached the floor at
+ *   q - towardLight * h / rise, so q shows the floor shadow from there:
+ *   raised receivers (walls, steps up) catch the shadow closer to the
+ *   subject, lowered ones further away
+ * - The ray is marched toward the light; where the surface rises above
+ *   it, q is shaded by the background itself and the subject's shadow
+ *   is cut off
+ */
+export class HeightField {
+  /** Surface within this many pixels above the ray does not block it (depth quantization) */
+  private static readonly BIAS = 1;
+
+  private heights: Float32Array;
+  private width: number;
+  private height: number;
+  private maxHeight: number;
+
+  /**
+   * @param depthMap - Grayscale depth map of the background
+   * @param contactLine - Contact points; the surface under them is the floor
+   * @param scale - Height in pixels between the nearest and farthest depth
+   * @param near - Which end of the grayscale range is near
+   */
+  constructor(
+    depthMap: PixelBuffer,
+    contactLine: ContactLine,
+    scale: number = 100,
+    near: DepthNear = 'black'
+  ) {
+    this.width = depthMap.width;
+    this.height = depthMap.height;
+    this.heights = new Float32Array(this.width * this.height);
+
+    for (let i = 0; i < this.heights.length; i++) {
+      const depth = depthMap.data[i * 4] / 255;
+      this.heights[i] = (near === 'black' ? 1 - depth : depth) * scale;
+    }
+
+    // Floor height: median of the surface under the contact points
+    const floorHeights = contactLine.points
+      .filter((p) => p.x >= 0 && p.x < this.width && p.y >= 0 && p.y < this.height)
+      .map((p) => this.heights[p.y * this.width + p.x])
+      .sort((a, b) => a - b);
+    let floor = floorHeights.length > 0 ? floorHeights[floorHeights.length >> 1] : Infinity;
+    if (floor === Infinity) {
+      // No contact: lowest surface point
+      for (let i = 0; i < this.heights.length; i++) {
+        floor = Math.min(floor, this.heights[i]);
+      }
+    }
+
+    let maxHeight = -Infinity;
+    for (let i = 0; i < this.heights.length; i++) {
+      this.heights[i] -= floor;
+      maxHeight = Math.max(maxHeight, this.heights[i]);
+    }
+    this.maxHeight = maxHeight;
+  }
+
+  /**
+   * Surface height at a pixel (pixels above the subject's floor)
+   */
+  heightAt(x: number, y: number): number {
+    return this.heights[y * this.width + x];
+  }
+
+  /**
+   * Move a floor shadow onto the surface
+   *
+   * @param shadowMask - Shadow coverage on the flat floor (0-1, same size as the depth map)
+   * @param light - Directional light vector, or a point light (height above the subject's floor)
+   * @param groundPlane - Optional perspective floor; directional rays then
+   *                      follow its vanishing directions
+   * @returns Shadow coverage on the surface (0-1)
+   */
+  castShadow(
+    shadowMask: Float32Array,
+    light: LightVector | PointLight,
+    groundPlane?: GroundPlane | null
+  ): Float32Array {
+    const { width, height } = this;
+    const result = new Float32Array(width * height);
+    const pointLight = 'type' in light && light.type === 'point' ? light : null;
+
+    // Directional light: one image direction toward the light, one rise
+    let dirX = 0;
+    let dirY = 0;
+    let slope = Infinity; // Overhead: rays are vertical
+    if (!pointLight) {
+      const vector = light as LightVector;
+      const flat = Math.hypot(vector.dx, vector.dy);
+      if (flat > 1e-6) {
+        dirX = vector.dx / flat;
+        dirY = vector.dy / flat;
+        slope = vector.dz / flat;
+      }
+    }
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const idx = y * width + x;
+        const h = this.heights[idx];
+
+        let towardX = dirX;
+        let towardY = dirY;
+        let rise = slope;
+        let limit = width + height;
+
+        if (pointLight) {
+          // Receiver at or above the light is not lit from above
+          if (pointLight.height <= h) continue;
+
+          const dx = pointLight.x - x;
+          const dy = pointLight.y - y;
+          const d = Math.hypot(dx, dy);
+          if (d > 1e-6) {
+            towardX = dx / d;
+            towardY = dy / d;
+            rise = (pointLight.height - h) / d;
+            limit = d;
+          } else {
+            rise = Infinity;
+          }
+        } else if (groundPlane && rise !== Infinity) {
+          const direction = groundPlane.imageDirectionAt(x, y, dirX, dirY);
+          if (!direction) continue; // At/above the horizon
+          towardX = direction.x;
+          towardY = direction.y;
+        }
+
+        // Floor point whose shadow this receiver shows
+        const shift = rise === Infinity ? 0 : h / rise;
+        const value = sample(shadowMask, width, height, x - towardX * shift, y - towardY * shift);
+        if (value === 0) continue;
+
+        if (this.isOccluded(x, y, h, towardX, towardY, rise, limit)) continue;
+
+        result[idx] = value;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * March from a receiver toward the light until the ray is above every
+   * surface height
+   *
+   * @returns True if the surface blocks the ray
+   */
+  private isOccluded(
+    x: number,
+    y: number,
+    h: number,
+    towardX: number,
+    towardY: number,
+    rise: number,
+    limit: number
+  ): boolean {
+    if (rise === Infinity) return false;
+
+    const steps = Math.min((this.maxHeight - h - HeightField.BIAS) / rise, limit);
+
+    for (let t = 1; t <= steps; t++) {
+      const px = Math.round(x + towardX * t);
+      const py = Math.round(y + towardY * t);
+      if (px < 0 || px >= this.width || py < 0 || py >= this.height) return false;
+
+      if (this.heights[py * this.width + px] > h + t * rise + HeightField.BIAS) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
+
+/**
+ * Bilinear sample of a plane (zero outside)
+ */
+function sample(plane: Float32Array, width: number, height: number, x: number, y: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const at = (px: number, py: number): number =>
+    px >= 0 && px < width && py >= 0 && py < height ? plane[py * width + px] : 0;
+
+  return (
+    (1 - fy) * ((1 - fx) * at(x0, y0) + fx * at(x0 + 1, y0)) +
+    fy * ((1 - fx) * at(x0, y0 + 1) + fx * at(x0 + 1, y0 + 1))
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * Shadows the subjects of a scene cast onto each other
+ */
+
+import type { FloatPixelBuffer, LightVector, PointLight } from '../core/types';
+import type { GroundPlane } from './GroundPlane';
+import { createFloatPixelBuffer, sampleBilinear } from '../utils/imageData';
+
+/**
+ * InterSubjectShadow - Catches a caster's floor shadow on another subject
+ *
+ * Each receiver is treated as a vertical billboard standing on its
+ * ground row (per column). A receiver pixel at height h above its ground
+ * point G sits on the light ray that would have reached the floor further
+ * along the shadow direction:
+ * - Directional: G + shadowDir * h / tan(elevation) (shadowDir follows
+ *   the perspective floor when there is one)
+ * - Point: G + (G - L) * h / (lightHeight - h), L = point under the light
+ *
+ * If the caster's floor shadow covers that floor point, the ray was
+ * blocked before it reached the receiver, so the receiver pixel is in
+ * shadow. Only receivers further from the light than the caster (along
+ * the shadow direction, or from the point under a point light) can be
+ * shadowed by it; otherwise the caster stands behind the receiver.
+ */
+export class InterSubjectShadow {
+  /**
+   * Shadow one caster throws onto one receiver, for one light
+   *
+   * @param casterShadow - Caster's floor shadow layer for this light
+   * @param casterOrigin - Center of the caster's contact line
+   * @param receiverCoverage - Receiver silhouette coverage (0-1)
+   * @param receiverGround - Ground row per column under the receiver (-1 = none)
+   * @param light - Directional light vector, or a point light
+   * @param groundPlane - Optional perspective floor (directional lights)
+   * @returns Shadow on the receiver's pixels (premultiplied, weighted by
+   *          coverage), or null when none reaches the receiver
+   */
+  receive(
+    casterShadow: FloatPixelBuffer,
+    casterOrigin: { x: number; y: number },
+    receiverCoverage: Float32Array,
+    receiverGround: Int32Array,
+    light: LightVector | PointLight,
+    groundPlane?: GroundPlane | null
+  ): FloatPixelBuffer | null {
+    const { width, height } = casterShadow;
+    const pointLight = 'type' in light && light.type === 'point' ? light : null;
+
+    // Directional light: shadow direction and rise per pixel travelled
+    let dirX = 0;
+    let dirY = 0;
+    let rise = Infinity;
+    if (!pointLight) {
+      const vector = light as LightVector;
+      const flat = Math.hypot(vector.dx, vector.dy);
+      // Overhead: shadows stay under their casters
+      if (flat < 1e-6) return null;
+      dirX = -vector.dx / flat;
+      dirY = -vector.dy / flat;
+      rise = vector.dz / flat;
+    }
+
+    const casterReach = pointLight
+      ? Math.hypot(casterOrigin.x - pointLight.x, casterOrigin.y - pointLight.y)
+      : casterOrigin.x * dirX + casterOrigin.y * dirY;
+
+    let result: FloatPixelBuffer | null = null;
+    const sample = new Float32Array(4);
+
+    for (let x = 0; x < width; x++) {
+      const groundY = receiverGround[x];
+      if (groundY < 0) continue;
+
+      // Column direction and how far the receiver stands from the light
+      let towardX = dirX;
+      let towardY = dirY;
+      let reach: number;
+      if (pointLight) {
+        const rayX = x - pointLight.x;
+        const rayY = groundY - pointLight.y;
+        reach = Math.hypot(rayX, rayY);
+        if (reach < 1e-6) continue;
+        towardX = rayX / reach;
+        towardY = rayY / reach;
+      } else {
+        reach = x * dirX + groundY * dirY;
+        if (groundPlane) {
+          const direction = groundPlane.imageDirectionAt(x, groundY, dirX, dirY);
+          if (!direction) continue; // Ground at/above the horizon
+          towardX = direction.x;
+          towardY = direction.y;
+        }
+      }
+
+      // Caster behind the receiver (or level with it): no shadow
+      if (reach <= casterReach) continue;
+
+      for (let y = Math.min(groundY, height - 1); y >= 0; y--) {
+        const idx = y * width + x;
+        const coverage = receiverCoverage[idx];
+        if (coverage === 0) continue;
+
+        const h = groundY - y;
+        let run: number;
+        if (pointLight) {
+          if (h >= pointLight.height) continue; // At or above the light: no ray reaches the floor
+          run = (reach * h) / (pointLight.height - h);
+        } else {
+          run = h / rise;
+        }
+
+        sampleBilinear(casterShadow, x + towardX * run, groundY + towardY * run, sample);
+        if (sample[3] === 0) continue;
+
+        result ??= createFloatPixelBuffer(width, height);
+        const p = idx * 4;
+        for (let c = 0; c < 4; c++) {
+          result.data[p + c] = sample[c] * coverage;
+        }
+      }
+    }
+
+    return result;
+  }
+}
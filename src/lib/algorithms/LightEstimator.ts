@@ -0,0 +1,327 @@
+/**
+ * Estimates the scene's light direction from the background image
+ */
+
+import type { LightEstimate, PixelBuffer, RGBColor } from '../core/types';
+import { resizePixelBuffer } from '../utils/imageData';
+import { clamp, lerp, radiansToDegrees } from '../utils/math';
+
+/**
+ * LightEstimator - Suggests lightAngle / lightElevation for a background
+ *
+ * Cues (on a downscaled luminance image):
+ * 1. Brightness gradient: least-squares plane fit of luminance; the
+ *    light is on the brighter side
+ * 2. Highlights: the brightest 1% of pixels sit toward the light
+ *    (sky, windows, lamps, specular spots)
+ * 3. Cast shadows: the edges of dark regions run along the light
+ *    direction, so their dominant orientation gives the light axis
+ *    (its sign comes from cues 1 and 2)
+ *
+ * Direction: weighted sum of the cue directions (unit vectors)
+ * Confidence: length of that sum over the number of cues (0-1), high
+ * only when the cues are strong and agree
+ * Elevation: long, coherent shadow edges mean a low light; without them
+ * the estimate stays near 45-65°. This is the least reliable output.
+ *
+ * Ambient color: the scene's average color with the key light's color
+ * (its highlights) divided out, i.e. what the light that is left in a
+ * shadow looks like
+ */
+export class LightEstimator {
+  /** Estimates below this confidence should not replace a default light */
+  static readonly MIN_CONFIDENCE = 0.25;
+
+  /** Longer image side analyzed (pixels) */
+  private static readonly ANALYSIS_SIZE = 256;
+
+  /** Luminance change across the image (center to edge) that counts as a strong gradient */
+  private static readonly STRONG_GRADIENT = 0.15;
+
+  /**
+   * Smallest Sobel magnitude of a shadow boundary (a luminance step of
+   * about 0.05); smooth shading crossing the dark threshold is not an edge
+   */
+  private static readonly MIN_EDGE_MAGNITUDE = 0.2;
+
+  /** Channel value at which a pixel counts as clipped (no usable color) */
+  private static readonly CLIPPED = 250;
+
+  /**
+   * Estimate light direction from the background
+   *
+   * @param background - Background image
+   * @returns Suggested angle (0-360°), elevation (0-90°) and confidence (0-1)
+   */
+  estimate(background: PixelBuffer): LightEstimate {
+    const image = this.downscale(background);
+    const { width, height } = image;
+    const luminance = this.luminance(image);
+
+    const gradient = this.brightnessGradient(luminance, width, height);
+    const highlight = this.highlightOffset(luminance, width, height);
+    const shadows = this.shadowAxis(luminance, width, height);
+
+    // Cue weights (0-1) and unit directions toward the light
+    const gradientLength = Math.hypot(gradient.x, gradient.y);
+    const gradientWeight = Math.min(1, gradientLength / LightEstimator.STRONG_GRADIENT);
+    const highlightLength = Math.hypot(highlight.x, highlight.y);
+    const highlightWeight = Math.min(1, highlightLength);
+
+    let sumX = 0;
+    let sumY = 0;
+    if (gradientLength > 0) {
+      sumX += (gradient.x / gradientLength) * gradientWeight;
+      sumY += (gradient.y / gradientLength) * gradientWeight;
+    }
+    if (highlightLength > 0) {
+      sumX += (highlight.x / highlightLength) * highlightWeight;
+      sumY += (highlight.y / highlightLength) * highlightWeight;
+    }
+
+    if (shadows.coherence > 0) {
+      // Orient the shadow axis toward the light side found so far
+      // (light from above when there is no other cue)
+      let axisX = shadows.axisX;
+      let axisY = shadows.axisY;
+      const reference = sumX !== 0 || sumY !== 0 ? { x: sumX, y: sumY } : { x: 0, y: -1 };
+      if (axisX * reference.x + axisY * reference.y < 0) {
+        axisX = -axisX;
+        axisY = -axisY;
+      }
+      sumX += axisX * shadows.coherence;
+      sumY += axisY * shadows.coherence;
+    }
+
+    const agreement = Math.hypot(sumX, sumY);
+    const angle = agreement > 1e-3
+      ? (radiansToDegrees(Math.atan2(sumY, sumX)) + 360) % 360
+      : 135;
+
+    return {
+      angle,
+      elevation: lerp(65, 20, shadows.coherence),
+      confidence: clamp(agreement / 3, 0, 1)
+    };
+  }
+
+  /**
+   * Estimate the color of the ambient (sky / bounce) light
+   *
+   * Mean scene color divided by the mean color of the brightest 1% of
+   * unclipped pixels (the key light on bright surfaces). A warm sunset
+   * gives a cool ambient color; a scene without distinct highlights gives
+   * a neutral one.
+   *
+   * @param background - Background image
+   * @returns Ambient color, brightest channel scaled to 255
+   */
+  estimateAmbientColor(background: PixelBuffer): RGBColor {
+    const image = this.downscale(background);
+    const luminance = this.luminance(image);
+    const pixels = image.data;
+
+    // Clipped pixels (sun disk, blown sky) say nothing about the light's color
+    const unclipped: number[] = [];
+    for (let i = 0; i < luminance.length; i++) {
+      const p = i * 4;
+      if (Math.max(pixels[p], pixels[p + 1], pixels[p + 2]) < LightEstimator.CLIPPED) {
+        unclipped.push(i);
+      }
+    }
+    if (unclipped.length === 0) return { r: 255, g: 255, b: 255 };
+
+    const sorted = unclipped.map((i) => luminance[i]).sort((a, b) => a - b);
+    const threshold = sorted[Math.floor(sorted.length * 0.99)];
+
+    const mean = [0, 0, 0];
+    const key = [0, 0, 0];
+    let keyCount = 0;
+    for (let i = 0; i < luminance.length; i++) {
+      const p = i * 4;
+      for (let c = 0; c < 3; c++) mean[c] += pixels[p + c];
+    }
+    for (const i of unclipped) {
+      if (luminance[i] < threshold) continue;
+      for (let c = 0; c < 3; c++) key[c] += pixels[i * 4 + c];
+      keyCount++;
+    }
+
+    // +1 keeps a channel missing from the highlights from exploding
+    const ratio = mean.map((sum, c) => (sum / luminance.length + 1) / (key[c] / keyCount + 1));
+    const brightest = Math.max(...ratio);
+
+    return {
+      r: Math.round((ratio[0] / brightest) * 255),
+      g: Math.round((ratio[1] / brightest) * 255),
+      b: Math.round((ratio[2] / brightest) * 255)
+    };
+  }
+
+  /**
+   * Shrink the longer side to ANALYSIS_SIZE (smaller images are used as is)
+   */
+  private downscale(background: PixelBuffer): PixelBuffer {
+    const scale = Math.min(1, LightEstimator.ANALYSIS_SIZE / Math.max(background.width, background.height));
+    if (scale >= 1) return background;
+
+    return resizePixelBuffer(
+      background,
+      Math.max(1, Math.round(background.width * scale)),
+      Math.max(1, Math.round(background.height * scale))
+    );
+  }
+
+  /**
+   * Rec. 709 luminance (0-1) per pixel
+   */
+  private luminance(image: PixelBuffer): Float32Array {
+    const luminance = new Float32Array(image.width * image.height);
+    for (let i = 0; i < luminance.length; i++) {
+      const p = i * 4;
+      luminance[i] =
+        (0.2126 * image.data[p] + 0.7152 * image.data[p + 1] + 0.0722 * image.data[p + 2]) / 255;
+    }
+    return luminance;
+  }
+
+  /**
+   * Plane fit L ≈ a + b·u + c·v with u, v in [-1, 1] (center to edge)
+   *
+   * @returns (b, c): luminance change toward the right and downward
+   */
+  private brightnessGradient(
+    luminance: Float32Array,
+    width: number,
+    height: number
+  ): { x: number; y: number } {
+    const halfW = Math.max(1, (width - 1) / 2);
+    const halfH = Math.max(1, (height - 1) / 2);
+
+    let sumU = 0;
+    let sumV = 0;
+    let sumUU = 0;
+    let sumVV = 0;
+
+    // On a full grid u and v are uncorrelated, so each slope is a 1D fit
+    for (let y = 0; y < height; y++) {
+      const v = (y - halfH) / halfH;
+      for (let x = 0; x < width; x++) {
+        const u = (x - halfW) / halfW;
+        const value = luminance[y * width + x];
+        sumU += u * value;
+        sumV += v * value;
+        sumUU += u * u;
+        sumVV += v * v;
+      }
+    }
+
+    return {
+      x: sumUU > 0 ? sumU / sumUU : 0,
+      y: sumVV > 0 ? sumV / sumVV : 0
+    };
+  }
+
+  /**
+   * Centroid of the brightest 1% of pixels relative to the image center
+   *
+   * @returns Offset in half-image units (0 = centered or no distinct highlights)
+   */
+  private highlightOffset(
+    luminance: Float32Array,
+    width: number,
+    height: number
+  ): { x: number; y: number } {
+    const sorted = Float32Array.from(luminance).sort();
+    const threshold = sorted[Math.floor(sorted.length * 0.99)];
+    const median = sorted[sorted.length >> 1];
+
+    // A flat image has no highlights to speak of
+    if (threshold - median < 0.1) return { x: 0, y: 0 };
+
+    let sumX = 0;
+    let sumY = 0;
+    let count = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (luminance[y * width + x] < threshold) continue;
+        sumX += x;
+        sumY += y;
+        count++;
+      }
+    }
+
+    const halfW = Math.max(1, width / 2);
+    const halfH = Math.max(1, height / 2);
+    return {
+      x: (sumX / count - halfW) / halfW,
+      y: (sumY / count - halfH) / halfH
+    };
+  }
+
+  /**
+   * Dominant orientation of the boundaries of dark regions
+   *
+   * Edges of an elongated cast shadow run along the light direction, so
+   * their luminance gradients point across it. Gradients are averaged as
+   * doubled angles (orientation, not direction).
+   *
+   * @returns Unit axis (sign undetermined) and coherence (0 = no dominant
+   *          orientation, 1 = all boundaries parallel)
+   */
+  private shadowAxis(
+    luminance: Float32Array,
+    width: number,
+    height: number
+  ): { axisX: number; axisY: number; coherence: number } {
+    const sorted = Float32Array.from(luminance).sort();
+    const darkThreshold = sorted[sorted.length >> 1] * 0.6;
+
+    let sumCos = 0;
+    let sumSin = 0;
+    let sumMagnitude = 0;
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const idx = y * width + x;
+        if (luminance[idx] >= darkThreshold) continue;
+
+        // Boundary: dark pixel next to a lit one
+        if (
+          luminance[idx - 1] < darkThreshold &&
+          luminance[idx + 1] < darkThreshold &&
+          luminance[idx - width] < darkThreshold &&
+          luminance[idx + width] < darkThreshold
+        ) {
+          continue;
+        }
+
+        // Sobel gradient
+        const gx =
+          luminance[idx - width + 1] + 2 * luminance[idx + 1] + luminance[idx + width + 1] -
+          luminance[idx - width - 1] - 2 * luminance[idx - 1] - luminance[idx + width - 1];
+        const gy =
+          luminance[idx + width - 1] + 2 * luminance[idx + width] + luminance[idx + width + 1] -
+          luminance[idx - width - 1] - 2 * luminance[idx - width] - luminance[idx - width + 1];
+
+        const magnitude = Math.hypot(gx, gy);
+        if (magnitude < LightEstimator.MIN_EDGE_MAGNITUDE) continue;
+
+        // cos(2θ), sin(2θ) weighted by magnitude
+        sumCos += (gx * gx - gy * gy) / magnitude;
+        sumSin += (2 * gx * gy) / magnitude;
+        sumMagnitude += magnitude;
+      }
+    }
+
+    if (sumMagnitude === 0) return { axisX: 0, axisY: 0, coherence: 0 };
+
+    // Edges run perpendicular to the dominant gradient
+    const gradientAngle = Math.atan2(sumSin, sumCos) / 2;
+    return {
+      axisX: -Math.sin(gradientAngle),
+      axisY: Math.cos(gradientAngle),
+      coherence: Math.hypot(sumCos, sumSin) / sumMagnitude
+    };
+  }
+}
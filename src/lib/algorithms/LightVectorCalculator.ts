@@ -2,8 +2,9 @@
  * Calculates 3D directional light vector from angle and elevation
  */
 
-import type { LightVector } from '../core/types';
-import { degreesToRadians } from '../utils/math';
+import type { ContactLine, LightVector, PointLight } from '../core/types';
+import { srgbToLinear } from '../utils/color';
+import { centroid, degreesToRadians, radiansToDegrees, smoothstep } from '../utils/math';
 
 /**
  * LightVectorCalculator - Converts angle/elevation to 3D vector
@@ -67,6 +68,106 @@ export class LightVectorCalculator {
     return 1.0 / Math.max(0.1, sinElevation);
   }
 
+  /**
+   * Penumbra width per pixel of distance from the contact line (area light)
+   *
+   * Physics (PCSS, distant light of angular diameter θ):
+   * - A shadow pixel at distance t from contact is cast by an occluder
+   *   point t / cos(elevation) away along the light ray
+   * - Penumbra width = occluder-to-receiver distance * 2 * tan(θ / 2)
+   * - So the shadow is sharp at contact and widens linearly with distance,
+   *   faster for a larger light and a higher sun
+   *
+   * @param elevationDegrees - Light elevation angle (0-90°)
+   * @param lightSizeDegrees - Angular diameter of the light (degrees)
+   * @returns Penumbra width (pixels) per pixel of contact distance
+   */
+  getPenumbraScale(elevationDegrees: number, lightSizeDegrees: number): number {
+    const elevationRad = degreesToRadians(elevationDegrees);
+    const halfAngle = degreesToRadians(Math.max(0, lightSizeDegrees)) / 2;
+
+    // Clamp like getShadowLengthMultiplier: overhead light would divide by zero
+    const cosElevation = Math.max(0.1, Math.cos(elevationRad));
+
+    return (2 * Math.tan(halfAngle)) / cosElevation;
+  }
+
+  /**
+   * Direction the shadow extends in image space (opposite to the light)
+   *
+   * @param lightVector - Light direction vector
+   * @returns Unit vector, or undefined when the light is (nearly) overhead
+   *          and the shadow has no direction
+   */
+  getShadowDirection(lightVector: LightVector): { x: number; y: number } | undefined {
+    const length = Math.hypot(lightVector.dx, lightVector.dy);
+    if (length < 1e-6) return undefined;
+
+    return { x: -lightVector.dx / length, y: -lightVector.dy / length };
+  }
+
+  /**
+   * Elevation of a point light as seen from the subject's base
+   * (center of the contact line); used where a single elevation is
+   * needed, e.g. for the penumbra scale
+   *
+   * @param light - Point light
+   * @param contactLine - Contact line of the subject
+   * @returns Elevation in degrees (0-90)
+   */
+  getPointLightElevation(light: PointLight, contactLine: ContactLine): number {
+    if (contactLine.points.length === 0) return 90;
+
+    const center = centroid(contactLine.points);
+    const groundDistance = Math.hypot(center.x - light.x, center.y - light.y);
+    return radiansToDegrees(Math.atan2(Math.max(0, light.height), groundDistance));
+  }
+
+  /**
+   * Spotlight falloff for every ground pixel
+   *
+   * Cone:
+   * - Axis from the light to the spot target on the ground
+   * - Full light inside coneAngle * (1 - penumbra), none beyond coneAngle,
+   *   smooth in between
+   *
+   * @param light - Point light with a spot cone
+   * @param width - Image width
+   * @param height - Image height
+   * @returns Light fraction (0-1) per pixel, or undefined if the light has no cone
+   */
+  getSpotFalloffMap(light: PointLight, width: number, height: number): Float32Array | undefined {
+    const spot = light.spot;
+    if (!spot) return undefined;
+
+    const outerRad = degreesToRadians(Math.max(0, Math.min(spot.coneAngle, 179)));
+    const innerRad = outerRad * (1 - Math.max(0, Math.min(spot.penumbra ?? 0.2, 1)));
+    const cosOuter = Math.cos(outerRad);
+    const cosInner = Math.cos(innerRad);
+
+    // Cone axis (light → target), z pointing up
+    const axisX = spot.targetX - light.x;
+    const axisY = spot.targetY - light.y;
+    const axisZ = -light.height;
+    const axisLength = Math.hypot(axisX, axisY, axisZ) || 1;
+
+    const falloff = new Float32Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        // Ray from the light to this ground pixel
+        const rayX = x - light.x;
+        const rayY = y - light.y;
+        const rayLength = Math.hypot(rayX, rayY, axisZ) || 1;
+
+        const cosAngle = (rayX * axisX + rayY * axisY + axisZ * axisZ) / (rayLength * axisLength);
+        falloff[y * width + x] = smoothstep(cosOuter, cosInner, cosAngle);
+      }
+    }
+
+    return falloff;
+  }
+
   /**
    * Get suggested shadow parameters based on light configuration
    * (Helper for realistic defaults)
@@ -83,8 +184,11 @@ export class LightVectorCalculator {
 
     const elevationNorm = elevationDegrees / 90; // 0-1
 
-    // Contact opacity: higher for low sun, lower for high sun
-    const contactOpacity = 0.9 - elevationNorm * 0.3; // 0.6 - 0.9
+    // Contact opacity: higher for low sun, lower for high sun. The shadow
+    // should darken the encoded (sRGB) image by 60-90%; blending happens in
+    // linear light, where that takes more opacity (≈ 0.87 - 0.99)
+    const darkening = 0.9 - elevationNorm * 0.3; // 0.6 - 0.9
+    const contactOpacity = 1 - srgbToLinear((1 - darkening) * 255);
 
     // Falloff rate: faster for high sun, slower for low sun
     const falloffRate = 3 + elevationNorm * 2; // 3 - 5
@@ -1,176 +1,697 @@
 /**
- * Projects shadow based on light vector using Bresenham's line algorithm
+ * Projects shadow coverage from the silhouette along the light
  */
 
-import type { LightVector } from '../core/types';
+import type { ContactLine, LightVector, PointLight } from '../core/types';
+import type { GroundPlane } from './GroundPlane';
 
 /**
  * ShadowProjector - Geometric shadow projection
  *
- * Algorithm:
- * 1. For each opaque pixel in silhouette
- * 2. Calculate projection point based on light vector
- * 3. Draw line from pixel to projection using Bresenham's algorithm
- * 4. If depth map provided, warp projection based on depth
+ * Algorithm (project):
+ * 1. Walk lines parallel to the shadow direction, one pixel apart
+ * 2. Along each line, a pixel is shadowed by every caster within the
+ *    shadow length toward the light (sliding maximum of coverage)
+ * 3. Coverage is fractional: soft foreground alpha and sub-pixel line
+ *    positions give anti-aliased edges
  *
  * Shadow Direction:
  * - Shadow projects in OPPOSITE direction of light vector
  * - If light comes from right (dx > 0), shadow goes left
+ *
+ * Point Lights (projectFromPoint):
+ * - The subject stands on its contact line; a pixel z rows above its
+ *   column's contact point G is at height z
+ * - Its shadow falls on the ground along the ray from the light through it:
+ *   S = G + (G - L) * z / (H - z), L = light's ground position, H = light height
+ * - Rays diverge from the light, and shadows grow as the light gets lower
+ * - Each pixel fills the quad between the shadows of its corners, with
+ *   its exact area in every pixel (anti-aliased, gap-free)
+ *
+ * Ground Plane (projectOnGround):
+ * - Same casting, but in floor coordinates: contact points are mapped onto
+ *   the floor, shadows are cast there in 3D and mapped back into the image,
+ *   so they foreshorten toward the horizon
  */
 export class ShadowProjector {
   /**
-   * Project shadow from silhouette based on light vector
+   * Project shadow from silhouette coverage based on light vector
+   *
+   * Sweeps lines parallel to the shadow instead of drawing one line per
+   * pixel, so the cost does not grow with the shadow length
    *
-   * @param mask - Binary silhouette mask (1 = opaque, 0 = transparent)
+   * @param coverage - Silhouette coverage (0-1, from the foreground alpha)
    * @param width - Image width
    * @param height - Image height
    * @param lightVector - Light direction vector
    * @param maxDistance - Maximum shadow projection distance
-   * @param depthMap - Optional depth map for depth-aware warping
-   * @returns Shadow mask (1 = shadow, 0 = no shadow)
+   * @param origin - Where these pixels begin in the image (for a crop of
+   *                 it; default: the whole image), so the sweep lines
+   *                 fall as they would on the whole image
+   * @returns Shadow coverage (0-1)
    */
   project(
-    mask: Uint8Array,
+    coverage: Float32Array,
     width: number,
     height: number,
     lightVector: LightVector,
     maxDistance: number,
-    depthMap?: ImageData
-  ): Uint8Array {
-    // Create shadow mask
-    const shadowMask = new Uint8Array(width * height);
+    origin: { x: number; y: number } = { x: 0, y: 0 }
+  ): Float32Array {
+    // Light straight overhead: the shadow is the silhouette itself
+    if (Math.hypot(lightVector.dx, lightVector.dy) * maxDistance < 1e-6) {
+      return coverage.slice();
+    }
 
-    // For each pixel in the silhouette
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = y * width + x;
+    // Sweep along the dominant axis of the shadow (transpose if it is Y)
+    if (Math.abs(lightVector.dy) > Math.abs(lightVector.dx)) {
+      const shadow = this.sweep(
+        transpose(coverage, width, height),
+        height,
+        width,
+        lightVector.dy,
+        lightVector.dx,
+        maxDistance,
+        origin.y
+      );
+      return transpose(shadow, height, width);
+    }
 
-        // Skip transparent pixels
-        if (mask[idx] === 0) continue;
+    return this.sweep(
+      coverage,
+      width,
+      height,
+      lightVector.dx,
+      lightVector.dy,
+      maxDistance,
+      origin.x
+    );
+  }
 
-        // Get depth warp factor if depth map provided
-        let warpFactor = 1.0;
+  /**
+   * Sheared sweep for a shadow whose X component dominates
+   *
+   * - Each caster at (x, y) shadows the segment to (x, y) - (along, across) * length
+   * - Lines y = j + slope * x run parallel to the shadow, one pixel apart;
+   *   each is sampled once per column (linear between rows), so every
+   *   pixel is visited and thin or diagonal silhouettes leave no gaps.
+   *   x counts from the image's first column, so a crop samples the
+   *   same lines as the whole image
+   * - Along a line a pixel takes the largest coverage of the casters that
+   *   reach it (max-heap of coverage keyed by where each caster's reach
+   *   ends), with the last partial pixel of each reach weighted by its
+   *   fraction
+   * - Line samples are spread back onto the two rows they fall between
+   *   with the same weights, which anti-aliases the shadow edges
+   *
+   * @param coverage - Caster coverage (width × height)
+   * @param width - Length of the dominant axis
+   * @param height - Length of the other axis
+   * @param along - Light vector component on the dominant axis (non-zero)
+   * @param across - Light vector component on the other axis
+   * @param maxDistance - Shadow length
+   * @param originX - Image column of the first column (crops)
+   * @returns Shadow coverage (width × height)
+   */
+  private sweep(
+    coverage: Float32Array,
+    width: number,
+    height: number,
+    along: number,
+    across: number,
+    maxDistance: number,
+    originX: number
+  ): Float32Array {
+    const shadow = new Float32Array(width * height);
+    const slope = across / along;
+
+    // Casters lie toward the light: scan from the light side so each
+    // caster is pushed before the pixels it shadows
+    const firstX = along > 0 ? width - 1 : 0;
+    const stepX = along > 0 ? -1 : 1;
 
-        if (depthMap) {
-          const depthIdx = idx * 4;
-          // Grayscale depth: 0 (near) to 255 (far)
-          const depth = depthMap.data[depthIdx] / 255.0;
+    // Shadow length in columns
+    const reach = Math.abs(along) * maxDistance;
 
-          // Objects further back cast longer/more warped shadows
-          // warp = 1.0 + depth * 0.5
-          // depth = 0 (near) → warp = 1.0
-          // depth = 1 (far) → warp = 1.5
-          warpFactor = 1.0 + depth * 0.5;
+    // All lines share the same row offset and fraction in a given column
+    const rowOffset = new Int32Array(width);
+    const rowFraction = new Float32Array(width);
+    for (let x = 0; x < width; x++) {
+      const offset = slope * (x + originX);
+      rowOffset[x] = Math.floor(offset);
+      rowFraction[x] = offset - rowOffset[x];
+    }
+
+    // Every line that passes through the rows
+    const lowest = Math.min(rowOffset[0], rowOffset[width - 1]);
+    const highest = Math.max(rowOffset[0], rowOffset[width - 1]);
+    const firstLine = -1 - highest;
+    const lastLine = height - lowest;
+
+    const samples = new Float32Array(width);
+    const heap = new CoverageHeap(2 * width);
+
+    for (let line = firstLine; line <= lastLine; line++) {
+      // Sample coverage along the line (linear between the two rows)
+      let any = false;
+      for (let x = 0; x < width; x++) {
+        const y0 = line + rowOffset[x];
+        const f = rowFraction[x];
+        let value = 0;
+        if (y0 >= 0 && y0 < height) value += (1 - f) * coverage[y0 * width + x];
+        if (y0 + 1 >= 0 && y0 + 1 < height) value += f * coverage[(y0 + 1) * width + x];
+        samples[x] = value;
+        if (value > 0) any = true;
+      }
+      if (!any) continue;
+
+      heap.clear();
+
+      for (let step = 0, x = firstX; step < width; step++, x += stepX) {
+        const value = samples[x];
+
+        if (value > 0) {
+          // Full coverage up to the last whole pixel, partial on the next
+          const whole = Math.floor(reach);
+          heap.push(value, step + whole);
+          const partial = reach - whole;
+          if (partial > 0) heap.push(value * partial, step + whole + 1);
         }
 
-        // Calculate shadow projection endpoint
-        // Shadow goes in OPPOSITE direction of light
-        // Negative sign because shadow is cast away from light source
-        const projX = x - lightVector.dx * maxDistance * warpFactor;
-        const projY = y - lightVector.dy * maxDistance * warpFactor;
+        heap.expire(step);
+        const shadowValue = heap.max();
+        if (shadowValue === 0) continue;
 
-        // Cast shadow from (x, y) to (projX, projY) using Bresenham
-        this.drawLine(shadowMask, width, height, x, y, projX, projY);
+        // Spread back onto the rows the sample lies between
+        const y0 = line + rowOffset[x];
+        const f = rowFraction[x];
+        if (y0 >= 0 && y0 < height) shadow[y0 * width + x] += (1 - f) * shadowValue;
+        if (y0 + 1 >= 0 && y0 + 1 < height) shadow[(y0 + 1) * width + x] += f * shadowValue;
       }
     }
 
-    return shadowMask;
+    return shadow;
   }
 
   /**
-   * Bresenham's line algorithm for shadow casting
-   * Draws a line from (x0, y0) to (x1, y1) in the shadow mask
+   * Project shadow from a point light
+   *
+   * Each silhouette pixel covers the ground between the shadows of its
+   * corners (see castPixels), so gaps in the silhouette stay gaps in the
+   * shadow
    *
-   * @param buffer - Shadow mask buffer
+   * @param coverage - Silhouette coverage (0-1, from the foreground alpha)
    * @param width - Image width
    * @param height - Image height
-   * @param x0 - Start X
-   * @param y0 - Start Y
-   * @param x1 - End X
-   * @param y1 - End Y
+   * @param light - Point light position and height
+   * @param contactLine - Contact points the subject stands on
+   * @param maxDistance - Longest shadow ray (pixels), for points level with
+   *                      or above the light
+   * @returns Shadow coverage (0-1)
    */
-  private drawLine(
-    buffer: Uint8Array,
+  projectFromPoint(
+    coverage: Float32Array,
     width: number,
     height: number,
-    x0: number,
-    y0: number,
-    x1: number,
-    y1: number
-  ): void {
-    // Bresenham's line algorithm
-    // https://en.wikipedia.org/wiki/Bresenham%27s_line_algorithm
+    light: PointLight,
+    contactLine: ContactLine,
+    maxDistance: number
+  ): Float32Array {
+    return this.castPixels(coverage, width, height, contactLine, (x, groundY, z) => {
+      const rayX = x - light.x;
+      const rayY = groundY - light.y;
+      const groundDistance = Math.hypot(rayX, rayY);
 
-    const dx = Math.abs(x1 - x0);
-    const dy = Math.abs(y1 - y0);
+      // Light directly above the contact point: shadow stays under the subject
+      if (groundDistance === 0) return { x, y: groundY };
+
+      // Ground offset of the shadow of a point at height z (along G - L)
+      const offset = z >= light.height
+        ? maxDistance
+        : Math.min(maxDistance, (groundDistance * z) / (light.height - z));
+      return {
+        x: x + (rayX / groundDistance) * offset,
+        y: groundY + (rayY / groundDistance) * offset
+      };
+    });
+  }
+
+  /**
+   * Project shadow onto a perspective floor plane
+   *
+   * @param coverage - Silhouette coverage (0-1, from the foreground alpha)
+   * @param width - Image width
+   * @param height - Image height
+   * @param groundPlane - Image ↔ floor mapping
+   * @param light - Directional light vector, or a point light (image position/height)
+   * @param contactLine - Contact points the subject stands on
+   * @param maxDistance - Longest shadow (image pixels at the contact point)
+   * @returns Shadow coverage (0-1)
+   */
+  projectOnGround(
+    coverage: Float32Array,
+    width: number,
+    height: number,
+    groundPlane: GroundPlane,
+    light: LightVector | PointLight,
+    contactLine: ContactLine,
+    maxDistance: number
+  ): Float32Array {
+    // Point light on the floor plane (position and height in floor units)
+    let lightGround: { x: number; y: number } | null = null;
+    let lightHeight = 0;
 
-    // Direction of line
-    const sx = x0 < x1 ? 1 : -1;
-    const sy = y0 < y1 ? 1 : -1;
+    if ('type' in light && light.type === 'point') {
+      lightGround = groundPlane.toGround(light.x, light.y);
+      const scale = groundPlane.scaleAt(light.x, light.y);
+      if (!lightGround || scale === null) {
+        console.warn('⚠️  Point light is at or above the horizon; no shadow cast');
+        return new Float32Array(width * height);
+      }
+      lightHeight = light.height * scale;
+    }
 
-    let err = dx - dy;
+    return this.castPixels(coverage, width, height, contactLine, (x, groundY, z) => {
+      const foot = groundPlane.toGround(x, groundY);
+      const scale = groundPlane.scaleAt(x, groundY);
+      if (!foot || scale === null) return null; // Contact above the horizon
 
-    // Current position (round to integer)
-    let x = Math.round(x0);
-    let y = Math.round(y0);
+      const maxOffset = maxDistance * scale;
+      const h = z * scale;
 
-    // End position (round to integer)
-    const endX = Math.round(x1);
-    const endY = Math.round(y1);
+      // Floor offset of the shadow per unit of height (directional),
+      // or the ray direction away from the light (point)
+      let dirX: number;
+      let dirY: number;
+      let offset: number;
 
-    // Trace line from start to end
-    while (true) {
-      // Mark pixel as shadow (if within bounds)
-      if (x >= 0 && x < width && y >= 0 && y < height) {
-        const idx = y * width + x;
-        buffer[idx] = 1;
+      if (lightGround) {
+        const rayX = foot.x - lightGround.x;
+        const rayY = foot.y - lightGround.y;
+        const groundDistance = Math.hypot(rayX, rayY);
+        dirX = groundDistance > 0 ? rayX / groundDistance : 0;
+        dirY = groundDistance > 0 ? rayY / groundDistance : 0;
+        offset = h >= lightHeight ? maxOffset : (groundDistance * h) / (lightHeight - h);
+      } else {
+        const vector = light as LightVector;
+        const dz = Math.max(0.1, vector.dz);
+        dirX = -vector.dx / dz;
+        dirY = -vector.dy / dz;
+        offset = h;
       }
 
-      // Reached end point
-      if (x === endX && y === endY) break;
+      // Directional offsets scale with |dir|; cap the actual floor length
+      const length = offset * Math.hypot(dirX, dirY);
+      if (length > maxOffset) offset *= maxOffset / length;
 
-      // Calculate error for next step
-      const e2 = 2 * err;
+      return groundPlane.toImage(foot.x + dirX * offset, foot.y + dirY * offset);
+    });
+  }
 
-      // Step in X direction
-      if (e2 > -dy) {
-        err -= dy;
-        x += sx;
-      }
+  /**
+   * Shadow of every silhouette pixel standing above the ground rows
+   * (point lights and perspective floors)
+   *
+   * - Pixel (x, y) covers the ground between the shadows of its corners
+   *   (x ± 0.5, y ± 0.5), each at its height above the ground under that
+   *   pixel edge (halfway between the neighbouring ground rows), and no
+   *   lower than the ground
+   * - Neighbouring pixels share corners, so the quads tile the shadow
+   *   without gaps however far it reaches
+   * - Shadows of one pixel edge at rising heights lie on one line, so a
+   *   run of pixels with the same coverage in a column casts one quad
+   * - Each quad adds its coverage times the area it has in every pixel
+   *   it touches (signed-area scanline accumulation, as font rasterizers
+   *   do), which anti-aliases the shadow edges
+   *
+   * The cost grows with the silhouette and the shadow's outline, not
+   * with the silhouette times the shadow length.
+   *
+   * @param coverage - Silhouette coverage (0-1)
+   * @param width - Image width
+   * @param height - Image height
+   * @param contactLine - Contact points the subject stands on
+   * @param shadowOf - Image position of the shadow of the point at column
+   *                   x and height z above ground row groundY (both may be
+   *                   fractional), or null if it casts none
+   * @returns Shadow coverage (0-1)
+   */
+  private castPixels(
+    coverage: Float32Array,
+    width: number,
+    height: number,
+    contactLine: ContactLine,
+    shadowOf: (x: number, groundY: number, z: number) => { x: number; y: number } | null
+  ): Float32Array {
+    const accumulator = new CoverageAccumulator(width, height);
 
-      // Step in Y direction
-      if (e2 < dx) {
-        err += dx;
-        y += sy;
+    // Ground row per column, and under the edge left of each column
+    const footY = this.getGroundRows(contactLine, width);
+    if (width === 0 || footY[0] < 0) return accumulator.toCoverage(); // No contact at all
+
+    const edgeY = new Float32Array(width + 1);
+    for (let x = 0; x <= width; x++) {
+      edgeY[x] = (footY[Math.max(0, x - 1)] + footY[Math.min(width - 1, x)]) / 2;
+    }
+
+    // Quad cast by rows top to bottom of column x (false if a corner casts none)
+    const castRows = (x: number, top: number, bottom: number, value: number): boolean => {
+      const leftY = edgeY[x];
+      const rightY = edgeY[x + 1];
+      const corners = [
+        shadowOf(x - 0.5, leftY, Math.max(0, leftY - bottom - 0.5)),
+        shadowOf(x + 0.5, rightY, Math.max(0, rightY - bottom - 0.5)),
+        shadowOf(x + 0.5, rightY, Math.max(0, rightY - top + 0.5)),
+        shadowOf(x - 0.5, leftY, Math.max(0, leftY - top + 0.5))
+      ];
+      if (corners.some((corner) => corner === null)) return false;
+
+      accumulator.addPolygon(corners as Array<{ x: number; y: number }>, value);
+      return true;
+    };
+
+    for (let x = 0; x < width; x++) {
+      const groundY = footY[x];
+
+      for (let y = 0; y <= groundY; y++) {
+        const value = coverage[y * width + x];
+        if (value === 0) continue;
+
+        let bottom = y;
+        while (bottom < groundY && coverage[(bottom + 1) * width + x] === value) bottom++;
+
+        // Part of the run beyond the horizon: the pixels that cast one
+        if (!castRows(x, y, bottom, value)) {
+          for (let row = y; row <= bottom; row++) castRows(x, row, row, value);
+        }
+        y = bottom;
       }
     }
+
+    return accumulator.toCoverage();
   }
 
   /**
-   * Combine silhouette mask with shadow mask
-   * Removes shadow pixels that are occluded by the foreground
+   * Combine silhouette coverage with shadow coverage
+   * Removes shadow that is occluded by the foreground (partially under
+   * semi-transparent edges)
    *
-   * @param shadowMask - Shadow mask
-   * @param silhouetteMask - Silhouette mask
+   * @param shadowMask - Shadow coverage (0-1)
+   * @param coverage - Silhouette coverage (0-1)
    * @param width - Image width
    * @param height - Image height
-   * @returns Shadow mask with occlusions removed
+   * @returns Shadow coverage with occlusions removed
    */
   removeOcclusions(
-    shadowMask: Uint8Array,
-    silhouetteMask: Uint8Array,
+    shadowMask: Float32Array,
+    coverage: Float32Array,
     width: number,
     height: number
-  ): Uint8Array {
-    const result = new Uint8Array(width * height);
+  ): Float32Array {
+    const result = new Float32Array(width * height);
 
     for (let i = 0; i < shadowMask.length; i++) {
-      // Only keep shadow pixels that are NOT occluded by silhouette
-      if (shadowMask[i] === 1 && silhouetteMask[i] === 0) {
-        result[i] = 1;
+      // Only keep the shadow the silhouette does NOT cover
+      result[i] = Math.min(1, shadowMask[i]) * (1 - coverage[i]);
+    }
+
+    return result;
+  }
+
+  /**
+   * Ground row under every column: the lowest contact point in columns
+   * with contact, interpolated across columns without (between chair legs,
+   * under a hanging arm) and held level past both ends
+   *
+   * @param contactLine - Contact points
+   * @param width - Image width
+   * @returns Row per column, all -1 when there are no contact points
+   */
+  getGroundRows(contactLine: ContactLine, width: number): Int32Array {
+    const rows = new Int32Array(width).fill(-1);
+    for (const point of contactLine.points) {
+      if (point.x >= 0 && point.x < width) {
+        rows[point.x] = Math.max(rows[point.x], point.y);
+      }
+    }
+
+    let previous = -1;
+    for (let x = 0; x < width; x++) {
+      if (rows[x] < 0) continue;
+
+      if (previous < 0) {
+        rows.fill(rows[x], 0, x);
+      } else {
+        for (let gap = previous + 1; gap < x; gap++) {
+          const t = (gap - previous) / (x - previous);
+          rows[gap] = Math.round(rows[previous] + (rows[x] - rows[previous]) * t);
+        }
+      }
+      previous = x;
+    }
+    if (previous >= 0) rows.fill(rows[previous], previous + 1);
+
+    return rows;
+  }
+
+  /**
+   * Shift a mask by a (fractional) offset, bilinearly
+   * (e.g. the shadow of a subject raised above the floor)
+   *
+   * @param mask - Coverage (0-1)
+   * @param width - Image width
+   * @param height - Image height
+   * @param dx - Shift to the right (pixels)
+   * @param dy - Shift downward (pixels)
+   * @returns Shifted mask (zero where it moved in from outside)
+   */
+  offset(mask: Float32Array, width: number, height: number, dx: number, dy: number): Float32Array {
+    const result = new Float32Array(width * height);
+    const x0 = Math.floor(dx);
+    const y0 = Math.floor(dy);
+    const fx = dx - x0;
+    const fy = dy - y0;
+
+    const at = (x: number, y: number): number =>
+      x >= 0 && x < width && y >= 0 && y < height ? mask[y * width + x] : 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        // Source position (x - dx, y - dy) between four pixels
+        const sx = x - x0;
+        const sy = y - y0;
+        result[y * width + x] =
+          (1 - fy) * ((1 - fx) * at(sx, sy) + fx * at(sx - 1, sy)) +
+          fy * ((1 - fx) * at(sx, sy - 1) + fx * at(sx - 1, sy - 1));
       }
     }
 
     return result;
   }
 }
+
+/**
+ * Swap the axes of a width × height plane
+ */
+function transpose(plane: Float32Array, width: number, height: number): Float32Array {
+  const result = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      result[x * height + y] = plane[y * width + x];
+    }
+  }
+  return result;
+}
+
+/**
+ * Max-heap of caster coverage values, each active up to (and including)
+ * an end step; expired entries are dropped lazily from the top
+ */
+class CoverageHeap {
+  private values: Float32Array;
+  private ends: Int32Array;
+  private size: number = 0;
+
+  constructor(capacity: number) {
+    this.values = new Float32Array(capacity);
+    this.ends = new Int32Array(capacity);
+  }
+
+  clear(): void {
+    this.size = 0;
+  }
+
+  push(value: number, end: number): void {
+    let i = this.size++;
+
+    // Sift up
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.values[parent] >= value) break;
+      this.values[i] = this.values[parent];
+      this.ends[i] = this.ends[parent];
+      i = parent;
+    }
+
+    this.values[i] = value;
+    this.ends[i] = end;
+  }
+
+  /** Drop top entries whose reach ended before this step */
+  expire(step: number): void {
+    while (this.size > 0 && this.ends[0] < step) {
+      this.pop();
+    }
+  }
+
+  max(): number {
+    return this.size > 0 ? this.values[0] : 0;
+  }
+
+  private pop(): void {
+    const last = --this.size;
+    const value = this.values[last];
+    const end = this.ends[last];
+    let i = 0;
+
+    // Sift down
+    while (true) {
+      const left = 2 * i + 1;
+      if (left >= last) break;
+      const right = left + 1;
+      const child = right < last && this.values[right] > this.values[left] ? right : left;
+      if (this.values[child] <= value) break;
+      this.values[i] = this.values[child];
+      this.ends[i] = this.ends[child];
+      i = child;
+    }
+
+    this.values[i] = value;
+    this.ends[i] = end;
+  }
+}
+
+/**
+ * ∫ clamp(t, 0, 1) dt from 0 to t
+ */
+function ramp(t: number): number {
+  return t <= 0 ? 0 : t < 1 ? (t * t) / 2 : t - 0.5;
+}
+
+/**
+ * Exact polygon area on the pixel grid: every edge adds the signed area
+ * it sweeps to the pixels it crosses, and a running sum along each row
+ * turns that into the (weighted) polygon area inside every pixel
+ */
+class CoverageAccumulator {
+  private width: number;
+  private height: number;
+  /** Two extra columns for what edges add at and right of the last pixel */
+  private stride: number;
+  /** Float64: edges that cancel leave no residue along the row */
+  private cells: Float64Array;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.stride = width + 2;
+    this.cells = new Float64Array(this.stride * height);
+  }
+
+  /**
+   * Add a polygon (image coordinates, pixel centers on integers) with
+   * the given weight per unit of area
+   */
+  addPolygon(points: Array<{ x: number; y: number }>, weight: number): void {
+    // Walk the outline in the direction that adds positive area
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+      const p = points[i];
+      const q = points[(i + 1) % points.length];
+      area += p.x * q.y - q.x * p.y;
+    }
+    if (Math.abs(area) < 1e-9) return;
+
+    const signed = area > 0 ? -weight : weight;
+    for (let i = 0; i < points.length; i++) {
+      const p = points[i];
+      const q = points[(i + 1) % points.length];
+      this.addEdge(p.x + 0.5, p.y + 0.5, q.x + 0.5, q.y + 0.5, signed);
+    }
+  }
+
+  /**
+   * Running sums along every row, clamped to 0-1 (rounding noise to 0)
+   */
+  toCoverage(): Float32Array {
+    const { width, height, stride, cells } = this;
+    const coverage = new Float32Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+      let sum = 0;
+      for (let x = 0; x < width; x++) {
+        sum += cells[y * stride + x];
+        coverage[y * width + x] = sum < 1e-6 ? 0 : sum >= 1 ? 1 : sum;
+      }
+    }
+
+    return coverage;
+  }
+
+  /**
+   * One edge in grid coordinates (pixel k spans k to k + 1), cut into
+   * one slice per row; parts left or right of the image are moved onto
+   * its first or last column boundary
+   */
+  private addEdge(x0: number, y0: number, x1: number, y1: number, weight: number): void {
+    if (y0 === y1) return;
+
+    // Walk downward; an edge walked upward subtracts
+    if (y0 > y1) {
+      this.addEdge(x1, y1, x0, y0, -weight);
+      return;
+    }
+
+    const dxdy = (x1 - x0) / (y1 - y0);
+    const firstRow = Math.max(0, Math.floor(y0));
+    const lastRow = Math.min(this.height, Math.ceil(y1));
+
+    for (let row = firstRow; row < lastRow; row++) {
+      const top = Math.max(row, y0);
+      const bottom = Math.min(row + 1, y1);
+      if (bottom <= top) continue;
+
+      const xTop = Math.min(this.width, Math.max(0, x0 + (top - y0) * dxdy));
+      const xBottom = Math.min(this.width, Math.max(0, x0 + (bottom - y0) * dxdy));
+      this.addSlice(row * this.stride, Math.min(xTop, xBottom), Math.max(xTop, xBottom), (bottom - top) * weight);
+    }
+  }
+
+  /**
+   * A slice of an edge within one row, from left to right: every pixel
+   * gets the share of amount that lies to its left (the running sum then
+   * adds amount to every pixel right of the slice)
+   */
+  private addSlice(rowStart: number, left: number, right: number, amount: number): void {
+    const first = Math.floor(left);
+
+    // Nearly vertical: split between the pixel it crosses and the next
+    if (right - left < 1e-6) {
+      const fraction = left - first;
+      this.cells[rowStart + first] += amount * (1 - fraction);
+      this.cells[rowStart + first + 1] += amount * fraction;
+      return;
+    }
+
+    // Area of pixel k right of the slice, averaged over its width:
+    // ∫ clamp(k + 1 - x, 0, 1) dx from left to right
+    const scale = amount / (right - left);
+    let previous = 0;
+
+    for (let k = first; k <= Math.floor(right) + 1; k++) {
+      const share = (ramp(k + 1 - left) - ramp(k + 1 - right)) * scale;
+      this.cells[rowStart + k] += share - previous;
+      previous = share;
+    }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Estimates how far a subject's shadow can land from the subject
+ */
+
+import type { ContactLine, ImageRegion, LightSource, ShadowConfig } from '../core/types';
+import { GroundPlane } from './GroundPlane';
+import { LightVectorCalculator } from './LightVectorCalculator';
+
+/**
+ * ShadowReach - Upper bounds on shadow length and blur, used to limit the
+ * pipeline to the part of the image a shadow can reach
+ *
+ * - Directional light: the flat part of the light vector times the
+ *   shadow length (as ShadowProjector.project)
+ * - Point light or perspective floor: cast from the feet, so the top of
+ *   the subject can be its whole height away from its shadow
+ * - Depth map: receivers up to depthScale above the floor shift the
+ *   shadow further along the light
+ * - Blur: the largest radius used up to that distance from the contact
+ *   line (fixed radii, or the area light penumbra)
+ *
+ * Every bound is at most the image diagonal.
+ */
+export class ShadowReach {
+  private lightCalculator: LightVectorCalculator;
+
+  constructor(lightCalculator: LightVectorCalculator = new LightVectorCalculator()) {
+    this.lightCalculator = lightCalculator;
+  }
+
+  /**
+   * How far from the subject (pixels) one light's shadow can land: the
+   * longest projected shadow plus the shift onto the depth map surface,
+   * at most the image diagonal
+   *
+   * @param light - Light source
+   * @param config - Shadow configuration
+   * @param contactLine - Contact line of the whole subject
+   * @param subjectBounds - Subject's bounding box
+   * @param hasDepthMap - Whether shadows land on a depth map surface
+   * @param width - Image width
+   * @param height - Image height
+   * @returns Reach in pixels
+   */
+  getShadowReach(
+    light: LightSource,
+    config: ShadowConfig,
+    contactLine: ContactLine,
+    subjectBounds: ImageRegion,
+    hasDepthMap: boolean,
+    width: number,
+    height: number
+  ): number {
+    const diagonal = Math.hypot(width, height);
+    const maxPointShadow = this.lightCalculator.getShadowLengthMultiplier(0) * config.maxShadowDistance;
+
+    // Point lights and perspective floors cast from the feet, so the top
+    // of the subject can be its whole height away from its shadow
+    let reach: number;
+    if (config.groundPlane) {
+      const groundPlane = new GroundPlane(config.groundPlane, width, height);
+      reach = subjectBounds.height + this.getGroundReach(groundPlane, contactLine, maxPointShadow);
+    } else if (light.type === 'point') {
+      reach = subjectBounds.height + maxPointShadow;
+    } else {
+      // As ShadowProjector.project: the flat part of the light vector times the shadow length
+      const { dx, dy } = this.lightCalculator.calculate(light.angle, light.elevation);
+      reach = Math.hypot(dx, dy) *
+        this.lightCalculator.getShadowLengthMultiplier(light.elevation) * config.maxShadowDistance;
+    }
+
+    // Depth map: receivers up to depthScale above the floor shift the shadow
+    if (hasDepthMap) {
+      const depthScale = config.depthScale ?? 100;
+      if (light.type === 'point') {
+        reach += light.height > depthScale ? (depthScale * diagonal) / (light.height - depthScale) : diagonal;
+      } else {
+        const { dx, dy, dz } = this.lightCalculator.calculate(light.angle, light.elevation);
+        reach += (depthScale * Math.hypot(dx, dy)) / Math.max(dz, 1e-3);
+      }
+    }
+
+    return Math.min(reach, diagonal);
+  }
+
+  /**
+   * Largest blur radius any light uses on pixels up to maxDistance from
+   * the contact line
+   *
+   * @param lights - Light sources
+   * @param config - Shadow configuration
+   * @param contactLine - Contact line of the whole subject
+   * @param maxDistance - Farthest distance from the contact line (pixels)
+   * @returns Blur radius in pixels
+   */
+  getMaxBlurRadius(
+    lights: LightSource[],
+    config: ShadowConfig,
+    contactLine: ContactLine,
+    maxDistance: number
+  ): number {
+    return Math.max(...lights.map((light) => {
+      if (light.lightSize === undefined) return Math.max(config.minBlurRadius, config.maxBlurRadius);
+
+      // Same radius per distance as BlurEngine.applyPenumbraBlur
+      const elevation = light.type === 'point'
+        ? this.lightCalculator.getPointLightElevation(light, contactLine)
+        : light.elevation;
+      return (maxDistance * this.lightCalculator.getPenumbraScale(elevation, light.lightSize) * 2) / 2.56;
+    }));
+  }
+
+  /**
+   * Longest image distance from a contact point to the end of its
+   * shadow on a perspective floor (maxDistance floor lengths at the
+   * contact point's scale, sampled in 16 directions)
+   */
+  private getGroundReach(groundPlane: GroundPlane, contactLine: ContactLine, maxDistance: number): number {
+    const { points } = contactLine;
+    const stride = Math.max(1, Math.floor(points.length / 64));
+    let reach = 0;
+
+    for (let p = 0; p < points.length; p += stride) {
+      const point = points[p];
+      const foot = groundPlane.toGround(point.x, point.y);
+      const scale = groundPlane.scaleAt(point.x, point.y);
+      if (!foot || scale === null) continue;
+
+      for (let k = 0; k < 16; k++) {
+        const angle = (k * Math.PI) / 8;
+        const end = groundPlane.toImage(
+          foot.x + Math.cos(angle) * maxDistance * scale,
+          foot.y + Math.sin(angle) * maxDistance * scale
+        );
+        if (end) reach = Math.max(reach, Math.hypot(end.x - point.x, end.y - point.y));
+      }
+    }
+
+    return reach;
+  }
+}
@@ -2,6 +2,9 @@
  * Extracts binary silhouette mask from image alpha channel
  */
 
+import type { PixelBuffer } from '../core/types';
+import { createPixelBuffer } from '../utils/imageData';
+
 /**
  * SilhouetteExtractor - Converts alpha channel to binary mask
  *
@@ -12,13 +15,13 @@
  */
 export class SilhouetteExtractor {
   /**
-   * Extract binary silhouette from ImageData alpha channel
+   * Extract binary silhouette from the image alpha channel
    *
    * @param imageData - Image with alpha channel
    * @param alphaThreshold - Threshold for considering pixel opaque (0-255)
    * @returns Binary mask as Uint8Array (1 = opaque, 0 = transparent)
    */
-  extract(imageData: ImageData, alphaThreshold: number = 10): Uint8Array {
+  extract(imageData: PixelBuffer, alphaThreshold: number = 10): Uint8Array {
     const width = imageData.width;
     const height = imageData.height;
     const pixels = imageData.data;
@@ -63,16 +66,37 @@ export class SilhouetteExtractor {
   }
 
   /**
-   * Convert binary mask to ImageData for visualization
+   * Extract fractional silhouette coverage from the image alpha channel
+   * (soft edges are kept, so projected shadows are anti-aliased)
+   *
+   * @param imageData - Image with alpha channel
+   * @param alphaThreshold - Alpha at or below this is treated as fully
+   *                         transparent (0-255, cutout noise)
+   * @returns Coverage as Float32Array (alpha / 255, 0 = transparent)
+   */
+  extractCoverage(imageData: PixelBuffer, alphaThreshold: number = 10): Float32Array {
+    const pixels = imageData.data;
+    const coverage = new Float32Array(imageData.width * imageData.height);
+
+    for (let i = 0; i < coverage.length; i++) {
+      const alpha = pixels[i * 4 + 3];
+      coverage[i] = alpha > alphaThreshold ? alpha / 255 : 0;
+    }
+
+    return coverage;
+  }
+
+  /**
+   * Convert binary mask to a pixel buffer for visualization
    * (useful for debug output)
    *
    * @param mask - Binary mask
    * @param width - Image width
    * @param height - Image height
-   * @returns ImageData with white pixels for 1, black for 0
+   * @returns PixelBuffer with white pixels for 1, black for 0
    */
-  maskToImageData(mask: Uint8Array, width: number, height: number): ImageData {
-    const imageData = new ImageData(width, height);
+  maskToImageData(mask: Uint8Array, width: number, height: number): PixelBuffer {
+    const imageData = createPixelBuffer(width, height);
     const pixels = imageData.data;
 
     for (let i = 0; i < mask.length; i++) {
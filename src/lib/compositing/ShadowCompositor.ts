@@ -2,57 +2,97 @@
  * Composes shadow with opacity falloff and alpha blending
  */
 
-import type { ShadowConfig, DistanceMap } from '../core/types';
+import type { BlendMode, ShadowConfig, DistanceMap, FloatPixelBuffer, RGBColor } from '../core/types';
 import { exponentialFalloff } from '../utils/math';
-import { alphaBlend } from '../utils/imageData';
+import { createFloatPixelBuffer } from '../utils/imageData';
+import { blendPremultiplied, linearToSrgb, srgbToLinear } from '../utils/color';
+
+const BLACK: RGBColor = { r: 0, g: 0, b: 0 };
 
 /**
  * ShadowCompositor - Create shadow layer and composite images
  *
  * Responsibilities:
- * 1. Apply opacity falloff based on distance from contact line
- * 2. Create shadow-only layer (transparent PNG with black shadow)
- * 3. Composite background + shadow + foreground using alpha blending
+ * 1. Apply opacity falloff based on distance from contact line (cast
+ *    shadows) or occlusion strength (contact shadow)
+ * 2. Create shadow-only layer (transparent PNG, black or tinted shadow)
+ * 3. Composite background + shadow + foreground: the shadow is blended
+ *    with a blend mode (multiply by default), the foreground is alpha
+ *    blended
+ *
+ * All layers are linear-light float buffers with premultiplied alpha
+ * (see FloatPixelBuffer); decode 8-bit images with decodePixelBuffer()
  */
 export class ShadowCompositor {
+  /**
+   * Fraction of the light (linear) a fully shadowed surface still receives
+   * from the ambient (sky / bounce) light, in its brightest channel
+   */
+  static readonly AMBIENT_FILL = 0.3;
+
+  /**
+   * Shadow color for an ambient light color: the ambient tint, scaled so
+   * a full-opacity shadow keeps AMBIENT_FILL of the background
+   * (blue sky light gives blue-purple shadows)
+   *
+   * @param ambientColor - Ambient light color
+   * @returns Shadow color to multiply into the background
+   */
+  getAmbientShadowColor(ambientColor: RGBColor): RGBColor {
+    const linear = [ambientColor.r, ambientColor.g, ambientColor.b].map(srgbToLinear);
+    const brightest = Math.max(...linear);
+    if (brightest <= 0) return BLACK;
+
+    // Scale in linear light, where multiplying by the color is physical
+    const [r, g, b] = linear.map((value) =>
+      Math.round(linearToSrgb((value / brightest) * ShadowCompositor.AMBIENT_FILL))
+    );
+    return { r, g, b };
+  }
+
   /**
    * Create shadow layer with distance-based opacity falloff
    *
-   * @param shadowMask - Binary shadow mask (1 = shadow, 0 = no shadow)
+   * @param shadowMask - Shadow coverage (0-1, 0 = no shadow)
    * @param distanceMap - Distance from contact line for each pixel
    * @param config - Shadow configuration (opacity, falloff rate, etc.)
    * @param width - Image width
    * @param height - Image height
-   * @returns ImageData with shadow layer (black shadow with alpha)
+   * @param intensity - Scales the whole layer's opacity (0-1, per-light strength)
+   * @param lightFalloff - Optional per-pixel light fraction (0-1, e.g. a
+   *                       spotlight cone); no light means no visible shadow
+   * @param color - Shadow color (multiplied into the background, default black)
+   * @returns Shadow layer (shadow color with alpha, linear premultiplied)
    */
   createShadowLayer(
-    shadowMask: Uint8Array,
+    shadowMask: Float32Array,
     distanceMap: DistanceMap,
     config: ShadowConfig,
     width: number,
-    height: number
-  ): ImageData {
-    const shadowData = new ImageData(width, height);
+    height: number,
+    intensity: number = 1,
+    lightFalloff?: Float32Array,
+    color: RGBColor = BLACK
+  ): FloatPixelBuffer {
+    const shadowData = createFloatPixelBuffer(width, height);
     const pixels = shadowData.data;
 
+    // Shadow color in linear light
+    const r = srgbToLinear(color.r);
+    const g = srgbToLinear(color.g);
+    const b = srgbToLinear(color.b);
+
     // For each pixel
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
         const idx = y * width + x;
 
-        // Skip if no shadow at this pixel
-        if (shadowMask[idx] === 0) {
-          // Transparent pixel
-          const pixelIdx = idx * 4;
-          pixels[pixelIdx] = 0;     // R
-          pixels[pixelIdx + 1] = 0; // G
-          pixels[pixelIdx + 2] = 0; // B
-          pixels[pixelIdx + 3] = 0; // A (transparent)
-          continue;
-        }
+        // Skip if no shadow at this pixel (stays transparent)
+        if (shadowMask[idx] === 0) continue;
 
-        // Get distance from contact line
+        // Get distance from contact line (Infinity: no contact, no shadow)
         const distance = distanceMap.data[idx];
+        if (distance === Infinity) continue;
 
         // Calculate opacity based on distance
         // Near contact: high opacity (dark shadow)
@@ -62,84 +102,189 @@ export class ShadowCompositor {
           config.contactOpacity,
           config.falloffRate,
           config.maxShadowDistance
-        );
+        ) * shadowMask[idx] * intensity * (lightFalloff ? lightFalloff[idx] : 1);
 
-        // Shadow color: black (0, 0, 0) with calculated alpha
+        // Shadow color premultiplied by opacity
         const pixelIdx = idx * 4;
-        pixels[pixelIdx] = 0;                      // R (black)
-        pixels[pixelIdx + 1] = 0;                  // G (black)
-        pixels[pixelIdx + 2] = 0;                  // B (black)
-        pixels[pixelIdx + 3] = opacity * 255;      // A (opacity)
+        pixels[pixelIdx] = r * opacity;
+        pixels[pixelIdx + 1] = g * opacity;
+        pixels[pixelIdx + 2] = b * opacity;
+        pixels[pixelIdx + 3] = opacity;
       }
     }
 
     return shadowData;
   }
 
+  /**
+   * Create the contact shadow layer from an occlusion map
+   *
+   * @param occlusion - Occlusion strength per pixel (0-1)
+   * @param opacity - Opacity at full occlusion (0-1)
+   * @param width - Image width
+   * @param height - Image height
+   * @param color - Shadow color (default black)
+   * @returns Contact shadow layer (linear premultiplied)
+   */
+  createOcclusionLayer(
+    occlusion: Float32Array,
+    opacity: number,
+    width: number,
+    height: number,
+    color: RGBColor = BLACK
+  ): FloatPixelBuffer {
+    const layer = createFloatPixelBuffer(width, height);
+    const pixels = layer.data;
+    const r = srgbToLinear(color.r);
+    const g = srgbToLinear(color.g);
+    const b = srgbToLinear(color.b);
+
+    for (let idx = 0; idx < occlusion.length; idx++) {
+      const alpha = occlusion[idx] * opacity;
+      if (alpha <= 0) continue;
+
+      const pixelIdx = idx * 4;
+      pixels[pixelIdx] = r * alpha;
+      pixels[pixelIdx + 1] = g * alpha;
+      pixels[pixelIdx + 2] = b * alpha;
+      pixels[pixelIdx + 3] = alpha;
+    }
+
+    return layer;
+  }
+
+  /**
+   * Combine several shadow layers into one, multiplicatively
+   *
+   * Each layer multiplies whatever is below it by (1 - a + a * color)
+   * (multiply blend, linear light), so the combined layer multiplies by
+   * the product of those factors:
+   * - alpha = 1 - Π(1 - aᵢ)
+   * - color chosen so that blending the combined layer once gives the
+   *   same result as applying every layer in turn; premultiplied, that
+   *   color is simply Π(factors) - Π(1 - aᵢ)
+   *
+   * Two 50% shadows overlap to 75%, never beyond what either light allows
+   *
+   * @param layers - Shadow layers (same dimensions)
+   * @returns Combined shadow layer
+   */
+  combineShadowLayers(layers: FloatPixelBuffer[]): FloatPixelBuffer {
+    const width = layers[0].width;
+    const height = layers[0].height;
+    const result = createFloatPixelBuffer(width, height);
+
+    for (let i = 0; i < width * height; i++) {
+      const pixelIdx = i * 4;
+
+      // Transmitted fraction of the whole pixel and per channel
+      let transmission = 1;
+      const factor = [1, 1, 1];
+
+      for (const layer of layers) {
+        const a = layer.data[pixelIdx + 3];
+        if (a === 0) continue;
+
+        // With premultiplied color: 1 - a + a * color = 1 - a + premultiplied
+        transmission *= 1 - a;
+        for (let c = 0; c < 3; c++) {
+          factor[c] *= 1 - a + layer.data[pixelIdx + c];
+        }
+      }
+
+      const alpha = 1 - transmission;
+      if (alpha <= 0) continue;
+
+      for (let c = 0; c < 3; c++) {
+        result.data[pixelIdx + c] = factor[c] - transmission;
+      }
+      result.data[pixelIdx + 3] = alpha;
+    }
+
+    return result;
+  }
+
   /**
    * Composite final image: background + shadow + foreground
    *
    * Layer order (bottom to top):
    * 1. Background (opaque)
-   * 2. Shadow (transparent with alpha)
+   * 2. Shadow (transparent with alpha), blended with blendMode so it
+   *    darkens the background's texture instead of painting over it
    * 3. Foreground (transparent with alpha)
    *
-   * Uses Porter-Duff "over" alpha blending
+   * Uses Porter-Duff "over" alpha blending for the foreground
    *
    * @param background - Background image
    * @param shadow - Shadow layer (with alpha)
    * @param foreground - Foreground cutout (with alpha)
-   * @returns Final composite ImageData
+   * @param blendMode - Blend mode for the shadow (default 'multiply')
+   * @returns Final composite
    */
   composite(
-    background: ImageData,
-    shadow: ImageData,
-    foreground: ImageData
-  ): ImageData {
-    const width = background.width;
-    const height = background.height;
-
-    // Create result buffer
-    const result = new ImageData(width, height);
+    background: FloatPixelBuffer,
+    shadow: FloatPixelBuffer,
+    foreground: FloatPixelBuffer,
+    blendMode: BlendMode = 'multiply'
+  ): FloatPixelBuffer {
+    // Start with background (copy)
+    const result: FloatPixelBuffer = {
+      width: background.width,
+      height: background.height,
+      data: new Float32Array(background.data)
+    };
 
     // Per-pixel compositing
-    for (let i = 0; i < width * height; i++) {
-      const pixelIdx = i * 4;
-
-      // Start with background (opaque)
-      let r = background.data[pixelIdx];
-      let g = background.data[pixelIdx + 1];
-      let b = background.data[pixelIdx + 2];
-      let a = background.data[pixelIdx + 3];
-
-      // Alpha blend shadow on top of background
-      const shadowBlend = alphaBlend(
-        r, g, b, a,
-        shadow.data[pixelIdx],
-        shadow.data[pixelIdx + 1],
-        shadow.data[pixelIdx + 2],
-        shadow.data[pixelIdx + 3]
-      );
-
-      r = shadowBlend.r;
-      g = shadowBlend.g;
-      b = shadowBlend.b;
-      a = shadowBlend.a;
+    for (let pixelIdx = 0; pixelIdx < result.data.length; pixelIdx += 4) {
+      // Shadow darkens the background
+      blendPremultiplied(blendMode, result.data, pixelIdx, shadow.data, pixelIdx);
 
       // Alpha blend foreground on top of (background + shadow)
-      const foregroundBlend = alphaBlend(
-        r, g, b, a,
-        foreground.data[pixelIdx],
-        foreground.data[pixelIdx + 1],
-        foreground.data[pixelIdx + 2],
-        foreground.data[pixelIdx + 3]
-      );
-
-      // Write final pixel
-      result.data[pixelIdx] = foregroundBlend.r;
-      result.data[pixelIdx + 1] = foregroundBlend.g;
-      result.data[pixelIdx + 2] = foregroundBlend.b;
-      result.data[pixelIdx + 3] = foregroundBlend.a;
+      blendPremultiplied('normal', result.data, pixelIdx, foreground.data, pixelIdx);
+    }
+
+    return result;
+  }
+
+  /**
+   * Composite a scene: background + floor shadow, then each subject
+   * with the shadow it catches from the others
+   *
+   * Layer order (bottom to top):
+   * 1. Background (opaque)
+   * 2. Floor shadow of all subjects, blended with blendMode
+   * 3. Per subject, back to front: the subject ("over"), then its
+   *    received shadow blended with blendMode, so subjects drawn later
+   *    cover both
+   *
+   * @param background - Background image
+   * @param shadow - Combined floor shadow layer
+   * @param subjects - Placed subjects (background size), back to front,
+   *                   with their received shadow (null = none)
+   * @param blendMode - Blend mode for the shadows (default 'multiply')
+   * @returns Final composite
+   */
+  compositeScene(
+    background: FloatPixelBuffer,
+    shadow: FloatPixelBuffer,
+    subjects: Array<{ image: FloatPixelBuffer; receivedShadow: FloatPixelBuffer | null }>,
+    blendMode: BlendMode = 'multiply'
+  ): FloatPixelBuffer {
+    const result: FloatPixelBuffer = {
+      width: background.width,
+      height: background.height,
+      data: new Float32Array(background.data)
+    };
+
+    for (let pixelIdx = 0; pixelIdx < result.data.length; pixelIdx += 4) {
+      blendPremultiplied(blendMode, result.data, pixelIdx, shadow.data, pixelIdx);
+
+      for (const subject of subjects) {
+        blendPremultiplied('normal', result.data, pixelIdx, subject.image.data, pixelIdx);
+        if (subject.receivedShadow) {
+          blendPremultiplied(blendMode, result.data, pixelIdx, subject.receivedShadow.data, pixelIdx);
+        }
+      }
     }
 
     return result;
@@ -155,55 +300,32 @@ export class ShadowCompositor {
    * @param shadow - Shadow layer (with alpha)
    * @param foreground - Foreground cutout (with alpha)
    * @param silhouetteMask - Binary mask of foreground
+   * @param blendMode - Blend mode for the shadow (default 'multiply')
    * @returns Composite with shadow only under foreground
    */
   compositeAttachedShadow(
-    background: ImageData,
-    shadow: ImageData,
-    foreground: ImageData,
-    silhouetteMask: Uint8Array
-  ): ImageData {
-    const width = background.width;
-    const height = background.height;
-    const result = new ImageData(width, height);
+    background: FloatPixelBuffer,
+    shadow: FloatPixelBuffer,
+    foreground: FloatPixelBuffer,
+    silhouetteMask: Uint8Array,
+    blendMode: BlendMode = 'multiply'
+  ): FloatPixelBuffer {
+    const result: FloatPixelBuffer = {
+      width: background.width,
+      height: background.height,
+      data: new Float32Array(background.data)
+    };
 
-    for (let i = 0; i < width * height; i++) {
+    for (let i = 0; i < background.width * background.height; i++) {
       const pixelIdx = i * 4;
 
-      let r = background.data[pixelIdx];
-      let g = background.data[pixelIdx + 1];
-      let b = background.data[pixelIdx + 2];
-      let a = background.data[pixelIdx + 3];
-
       // Only apply shadow if NOT under foreground
       if (silhouetteMask[i] === 0) {
-        const shadowBlend = alphaBlend(
-          r, g, b, a,
-          shadow.data[pixelIdx],
-          shadow.data[pixelIdx + 1],
-          shadow.data[pixelIdx + 2],
-          shadow.data[pixelIdx + 3]
-        );
-
-        r = shadowBlend.r;
-        g = shadowBlend.g;
-        b = shadowBlend.b;
-        a = shadowBlend.a;
+        blendPremultiplied(blendMode, result.data, pixelIdx, shadow.data, pixelIdx);
       }
 
       // Always blend foreground on top
-      const foregroundBlend = alphaBlend(
-        r, g, b, a,
-        foreground.data[pixelIdx],
-        foreground.data[pixelIdx + 1],
-        foreground.data[pixelIdx + 2],
-        foreground.data[pixelIdx + 3]
-      );
-
-      result.data[pixelIdx] = foregroundBlend.r;
-      result.data[pixelIdx + 1] = foregroundBlend.g;
-      result.data[pixelIdx + 2] = foregroundBlend.b;
-      result.data[pixelIdx + 3] = foregroundBlend.a;
+      blendPremultiplied('normal', result.data, pixelIdx, foreground.data, pixelIdx);
     }
 
     return result;
@@ -0,0 +1,185 @@
+import type { InferenceSession, Tensor } from 'onnxruntime-web';
+import type { PixelBuffer } from './types';
+import { createPixelBuffer, resizePixelBuffer, toImageData } from '../utils/imageData';
+
+/** Default model location (served by the app itself, no network) */
+export const DEFAULT_DEPTH_MODEL_URL = '/models/depth_anything_v2_small.onnx';
+
+export interface DepthEstimationOptions {
+  /**
+   * ONNX depth model: URL of a locally served file, or the file's bytes
+   * (e.g. from a file input). Default: DEFAULT_DEPTH_MODEL_URL
+   */
+  model?: string | ArrayBuffer | Uint8Array;
+
+  /** Side of the square model input (default 518, Depth Anything; 256 for MiDaS small) */
+  inputSize?: number;
+
+  /** The model outputs inverse depth, larger = nearer (MiDaS, Depth Anything). Default: true */
+  outputsDisparity?: boolean;
+
+  /** Directory the onnxruntime .wasm files are served from (default: bundled) */
+  wasmPaths?: string;
+
+  progress?: (stage: string, progress: number) => void;
+}
+
+// Loaded on first use, so the runtime stays out of the main bundle
+type OnnxRuntime = typeof import('onnxruntime-web');
+
+// ImageNet normalization used by MiDaS / Depth Anything
+const MEAN = [0.485, 0.456, 0.406];
+const STD = [0.229, 0.224, 0.225];
+
+/**
+ * DepthEstimator - Monocular depth for backgrounds without a depth map
+ *
+ * Runs a local ONNX model with onnxruntime-web (WASM) and returns the
+ * grayscale depth map ImageSet.depthMap expects (0 = near, 255 = far),
+ * at the input image's size. Depth is relative (normalized per image).
+ */
+export class DepthEstimator {
+  public modelLoaded: boolean = false;
+
+  private runtime: OnnxRuntime | null = null;
+  private session: InferenceSession | null = null;
+  private sessionModel: string | ArrayBuffer | Uint8Array | null = null;
+
+  async estimateDepth(
+    imageData: PixelBuffer,
+    options?: DepthEstimationOptions
+  ): Promise<ImageData> {
+    const session = await this.loadSession(options);
+    const size = options?.inputSize ?? 518;
+
+    options?.progress?.('compute:preprocess', 0);
+    const input = this.toInputTensor(this.runtime!, imageData, size);
+
+    options?.progress?.('compute:inference', 0);
+    const results = await session.run({ [session.inputNames[0]]: input });
+    options?.progress?.('compute:inference', 1);
+
+    const depth = this.toDepthBuffer(
+      results[session.outputNames[0]],
+      options?.outputsDisparity ?? true
+    );
+
+    // Back to the input size
+    const resized = resizePixelBuffer(depth, imageData.width, imageData.height);
+    options?.progress?.('compute:postprocess', 1);
+
+    return toImageData(resized);
+  }
+
+  async preloadModel(options?: DepthEstimationOptions): Promise<void> {
+    await this.loadSession(options);
+  }
+
+  private async loadSession(options?: DepthEstimationOptions): Promise<InferenceSession> {
+    const model = options?.model ?? DEFAULT_DEPTH_MODEL_URL;
+    if (this.session && this.sessionModel === model) return this.session;
+
+    const ort = this.runtime ?? await import('onnxruntime-web');
+    this.runtime = ort;
+
+    if (options?.wasmPaths) {
+      ort.env.wasm.wasmPaths = options.wasmPaths;
+    }
+
+    const bytes = typeof model === 'string'
+      ? await this.fetchModel(model, options?.progress)
+      : new Uint8Array(model);
+
+    options?.progress?.('compute:load', 0);
+    this.session = await ort.InferenceSession.create(bytes, { executionProviders: ['wasm'] });
+    this.sessionModel = model;
+    this.modelLoaded = true;
+    options?.progress?.('compute:load', 1);
+
+    return this.session;
+  }
+
+  private async fetchModel(
+    url: string,
+    progress?: (stage: string, progress: number) => void
+  ): Promise<Uint8Array> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load depth model from ${url} (${response.status})`);
+    }
+
+    const total = Number(response.headers.get('content-length')) || 0;
+    if (!response.body || total === 0) {
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      progress?.('fetch:model', 1);
+      return bytes;
+    }
+
+    // Stream to report download progress
+    const bytes = new Uint8Array(total);
+    const reader = response.body.getReader();
+    let received = 0;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (received + value.length > total) {
+        throw new Error(`Depth model at ${url} is larger than its Content-Length`);
+      }
+      bytes.set(value, received);
+      received += value.length;
+      progress?.('fetch:model', received / total);
+    }
+
+    return bytes.subarray(0, received);
+  }
+
+  /**
+   * Resize to size × size and normalize into a [1, 3, size, size] tensor
+   */
+  private toInputTensor(ort: OnnxRuntime, image: PixelBuffer, size: number): Tensor {
+    const resized = resizePixelBuffer(image, size, size);
+    const plane = size * size;
+    const data = new Float32Array(3 * plane);
+
+    for (let i = 0; i < plane; i++) {
+      for (let c = 0; c < 3; c++) {
+        data[c * plane + i] = (resized.data[i * 4 + c] / 255 - MEAN[c]) / STD[c];
+      }
+    }
+
+    return new ort.Tensor('float32', data, [1, 3, size, size]);
+  }
+
+  /**
+   * Normalize the model output ([1, H, W] or [1, 1, H, W]) to a grayscale
+   * depth map, 0 = near, 255 = far
+   */
+  private toDepthBuffer(output: Tensor, outputsDisparity: boolean): PixelBuffer {
+    const dims = output.dims;
+    const height = dims[dims.length - 2];
+    const width = dims[dims.length - 1];
+    const values = output.data as Float32Array;
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < width * height; i++) {
+      min = Math.min(min, values[i]);
+      max = Math.max(max, values[i]);
+    }
+    const range = max - min || 1;
+
+    const depth = createPixelBuffer(width, height);
+    for (let i = 0; i < width * height; i++) {
+      const normalized = (values[i] - min) / range;
+      const value = Math.round((outputsDisparity ? 1 - normalized : normalized) * 255);
+
+      depth.data[i * 4] = value;
+      depth.data[i * 4 + 1] = value;
+      depth.data[i * 4 + 2] = value;
+      depth.data[i * 4 + 3] = 255;
+    }
+
+    return depth;
+  }
+}
@@ -2,27 +2,53 @@
  * Image loading and pixel buffer handling
  */
 
+import type { PixelBuffer } from './types';
+import { resizePixelBuffer, toImageData } from '../utils/imageData';
+
+/**
+ * Constructor options for ImageProcessor
+ */
+export interface ImageProcessorOptions {
+  /**
+   * Longest side of loaded images; larger images are downscaled
+   * (default: ImageProcessor.DEFAULT_MAX_DIMENSION, Infinity = original size)
+   */
+  maxDimension?: number;
+}
+
 /**
  * ImageProcessor - Load images and convert to ImageData
  *
  * Handles:
  * - Loading images from File or URL
  * - Converting to ImageData pixel buffers
- * - Resizing/scaling if needed
+ * - Resizing/scaling if needed (images larger than maxDimension are
+ *   downscaled on load; pass Infinity to keep full resolution)
  */
 export class ImageProcessor {
+  /** Default cap on the longest side of loaded images (pixels) */
+  static readonly DEFAULT_MAX_DIMENSION = 1200;
+
+  /** Longest side of loaded images; larger images are downscaled */
+  maxDimension: number;
+
+  constructor(options: ImageProcessorOptions = {}) {
+    this.maxDimension = options.maxDimension ?? ImageProcessor.DEFAULT_MAX_DIMENSION;
+  }
+
   /**
    * Load image from File object and convert to ImageData
    *
    * @param file - Image file (from file input)
+   * @param maxDimension - Cap for this image (default: this.maxDimension)
    * @returns Promise resolving to ImageData
    */
-  async loadFromFile(file: File): Promise<ImageData> {
+  async loadFromFile(file: File, maxDimension: number = this.maxDimension): Promise<ImageData> {
     return new Promise((resolve, reject) => {
       // Use Object URL instead of Data URL (faster, no base64 encoding)
       const url = URL.createObjectURL(file);
 
-      this.loadFromUrl(url)
+      this.loadFromUrl(url, maxDimension)
         .then((imageData) => {
           URL.revokeObjectURL(url);  // Clean up memory
           resolve(imageData);
@@ -38,9 +64,10 @@ export class ImageProcessor {
    * Load image from URL and convert to ImageData
    *
    * @param url - Image URL (can be data URL or http URL)
+   * @param maxDimension - Cap for this image (default: this.maxDimension)
    * @returns Promise resolving to ImageData
    */
-  async loadFromUrl(url: string): Promise<ImageData> {
+  async loadFromUrl(url: string, maxDimension: number = this.maxDimension): Promise<ImageData> {
     return new Promise((resolve, reject) => {
       const img = new Image();
       const loadStartTime = performance.now();
@@ -51,7 +78,7 @@ export class ImageProcessor {
 
         try {
           const processStart = performance.now();
-          const imageData = this.imageToImageData(img);
+          const imageData = this.imageToImageData(img, maxDimension);
           const processTime = performance.now() - processStart;
           console.log(`  → Image processing time: ${(processTime / 1000).toFixed(2)}s`);
           resolve(imageData);
@@ -78,18 +105,17 @@ export class ImageProcessor {
    * Convert HTMLImageElement to ImageData
    *
    * @param img - Loaded image element
+   * @param maxDimension - Downscale so neither side exceeds this
+   *   (default: this.maxDimension)
    * @returns ImageData pixel buffer
    */
-  imageToImageData(img: HTMLImageElement): ImageData {
-    // Maximum dimension limit for performance
-    const MAX_DIMENSION = 1200;
-
+  imageToImageData(img: HTMLImageElement, maxDimension: number = this.maxDimension): ImageData {
     let width = img.width;
     let height = img.height;
 
     // Downscale if image is too large (maintains aspect ratio)
-    if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
-      const ratio = Math.min(MAX_DIMENSION / width, MAX_DIMENSION / height);
+    if (width > maxDimension || height > maxDimension) {
+      const ratio = Math.min(maxDimension / width, maxDimension / height);
       width = Math.round(width * ratio);
       height = Math.round(height * ratio);
       console.log(`Image downscaled from ${img.width}x${img.height} to ${width}x${height}`);
@@ -113,56 +139,32 @@ export class ImageProcessor {
   }
 
   /**
-   * Resize ImageData to target dimensions
+   * Resize a pixel buffer to target dimensions
+   * (pure JS bilinear resampling; no canvas required)
    *
-   * @param imageData - Source ImageData
+   * @param imageData - Source pixel buffer
    * @param targetWidth - Target width
    * @param targetHeight - Target height
-   * @returns Resized ImageData
+   * @returns Resized PixelBuffer
    */
   resize(
-    imageData: ImageData,
+    imageData: PixelBuffer,
     targetWidth: number,
     targetHeight: number
-  ): ImageData {
-    // Create canvas with source dimensions
-    const srcCanvas = document.createElement('canvas');
-    srcCanvas.width = imageData.width;
-    srcCanvas.height = imageData.height;
-
-    const srcCtx = srcCanvas.getContext('2d');
-    if (!srcCtx) {
-      throw new Error('Failed to get canvas 2D context');
-    }
-
-    // Put source image data
-    srcCtx.putImageData(imageData, 0, 0);
-
-    // Create canvas with target dimensions
-    const dstCanvas = document.createElement('canvas');
-    dstCanvas.width = targetWidth;
-    dstCanvas.height = targetHeight;
-
-    const dstCtx = dstCanvas.getContext('2d');
-    if (!dstCtx) {
-      throw new Error('Failed to get canvas 2D context');
-    }
-
-    // Draw resized image
-    dstCtx.drawImage(srcCanvas, 0, 0, targetWidth, targetHeight);
-
-    // Extract resized pixel data
-    return dstCtx.getImageData(0, 0, targetWidth, targetHeight);
+  ): PixelBuffer {
+    return resizePixelBuffer(imageData, targetWidth, targetHeight);
   }
 
   /**
    * Ensure all images have the same dimensions
-   * Resizes to the size of the first image
+   * Resizes to the size of the first image (stretching it; to put a
+   * foreground on a larger background, keep its size and set
+   * ImageSet.foregroundTransform instead)
    *
-   * @param images - Array of ImageData objects
-   * @returns Array of resized ImageData (all same size)
+   * @param images - Array of pixel buffers
+   * @returns Array of resized buffers (all same size)
    */
-  ensureSameDimensions(images: ImageData[]): ImageData[] {
+  ensureSameDimensions(images: PixelBuffer[]): PixelBuffer[] {
     if (images.length === 0) return [];
 
     const targetWidth = images[0].width;
@@ -177,14 +179,14 @@ export class ImageProcessor {
   }
 
   /**
-   * Convert ImageData to downloadable Blob
+   * Convert a pixel buffer to downloadable Blob
    *
-   * @param imageData - ImageData to convert
+   * @param imageData - ImageData or PixelBuffer to convert
    * @param mimeType - Output format (default: image/png)
    * @returns Promise resolving to Blob
    */
   async imageDataToBlob(
-    imageData: ImageData,
+    imageData: PixelBuffer,
     mimeType: string = 'image/png'
   ): Promise<Blob> {
     return new Promise((resolve, reject) => {
@@ -198,7 +200,7 @@ export class ImageProcessor {
         return;
       }
 
-      ctx.putImageData(imageData, 0, 0);
+      ctx.putImageData(toImageData(imageData), 0, 0);
 
       canvas.toBlob(
         (blob) => {
@@ -216,11 +218,11 @@ export class ImageProcessor {
   /**
    * Trigger download of ImageData as PNG file
    *
-   * @param imageData - ImageData to download
+   * @param imageData - ImageData or PixelBuffer to download
    * @param filename - Download filename
    */
   async downloadImageData(
-    imageData: ImageData,
+    imageData: PixelBuffer,
     filename: string
   ): Promise<void> {
     const blob = await this.imageDataToBlob(imageData);
@@ -2,48 +2,209 @@
  * Main shadow generation pipeline orchestrator
  */
 
-import type { ImageSet, ShadowConfig, ShadowResult } from './types';
+import type {
+  ImageSet,
+  ShadowConfig,
+  ContactShadowConfig,
+  FloatPixelBuffer,
+  ShadowResult,
+  GenerateOptions,
+  LightSource,
+  LightVector,
+  LightEstimate,
+  PixelBuffer,
+  ContactLine,
+  DistanceMap,
+  RGBColor,
+  Scene,
+  SceneSubject,
+  ImageRegion,
+  LinearShadowResult
+} from './types';
 import { SilhouetteExtractor } from '../algorithms/SilhouetteExtractor';
 import { LightVectorCalculator } from '../algorithms/LightVectorCalculator';
+import { LightEstimator } from '../algorithms/LightEstimator';
 import { ContactLineDetector } from '../algorithms/ContactLineDetector';
+import { ContactOcclusion } from '../algorithms/ContactOcclusion';
 import { DistanceTransform } from '../algorithms/DistanceTransform';
 import { ShadowProjector } from '../algorithms/ShadowProjector';
 import { BlurEngine } from '../algorithms/BlurEngine';
+import { GroundPlane } from '../algorithms/GroundPlane';
+import { HeightField } from '../algorithms/HeightField';
+import { InterSubjectShadow } from '../algorithms/InterSubjectShadow';
+import { GuidedUpsampler } from '../algorithms/GuidedUpsampler';
+import { ShadowReach } from '../algorithms/ShadowReach';
 import { ShadowCompositor } from '../compositing/ShadowCompositor';
+import { centroid } from '../utils/math';
+import { decodePixelBuffer, encodePixelBuffer } from '../utils/color';
+import {
+  clonePixelBuffer,
+  createFloatPixelBuffer,
+  createPixelBuffer,
+  cropFloatPixelBuffer,
+  cropPixelBuffer,
+  cropPlane,
+  pasteFloatPixelBuffer,
+  pastePixelBuffer,
+  resizePixelBuffer
+} from '../utils/imageData';
+import { placeForeground } from '../utils/placement';
+import {
+  alignRect,
+  clipRect,
+  expandRect,
+  getAlphaBounds,
+  getLargestCrop,
+  getPointBounds,
+  planTiles,
+  unionRect
+} from '../utils/region';
+import type { ShadowSession } from './ShadowSession';
+
+/**
+ * Everything steps 1-7 produce for one subject
+ */
+interface SubjectShadows {
+  silhouette: Uint8Array;
+  coverage: Float32Array;
+  contactLine: ContactLine;
+  /** Light vector per light (null for point lights) */
+  lightVectors: Array<LightVector | null>;
+  groundPlane: GroundPlane | null;
+  /** Blurred shadow layer per light */
+  lightLayers: FloatPixelBuffer[];
+  contactLayer: FloatPixelBuffer | null;
+}
+
+/**
+ * Part of the image a shadow can reach, and what finding it produced
+ */
+interface ShadowRegion {
+  /** Silhouette of the whole image */
+  silhouette: Uint8Array;
+  /** Contact line of the whole subject */
+  contactLine: ContactLine;
+  contactBounds: ImageRegion | null;
+  /** Subject, shadows and contact shadow (null: empty foreground) */
+  region: ImageRegion | null;
+  /** Reach around computed pixels a crop needs: longest shadow plus blur reach */
+  halo: number;
+}
+
+/**
+ * Where a tile's crop sits in the whole image (tiled generation)
+ */
+interface TileFrame {
+  x: number;
+  y: number;
+  /** Size of the whole image */
+  width: number;
+  height: number;
+  /** Contact line of the whole subject, in crop pixels */
+  contactLine: ContactLine;
+}
+
+/**
+ * Light-independent inputs of castShadows() from a ShadowSession, cropped
+ * to the shadow region
+ */
+interface CachedStages {
+  silhouette: Uint8Array;
+  coverage: Float32Array;
+  /** Euclidean distance from the contact line (unset for 'lightDirection') */
+  distanceMap?: DistanceMap;
+  contactLayer: FloatPixelBuffer | null;
+}
 
 /**
  * ShadowGenerator - Main orchestrator for realistic shadow generation
  *
  * Pipeline:
- * 1. Extract silhouette from foreground alpha channel
- * 2. Calculate light vector from angle/elevation
- * 3. Detect contact line (lowest visible pixels)
- * 4. Compute distance transform from contact line
- * 5. Project shadow based on light vector
- * 6. Apply opacity falloff based on distance
- * 7. Apply distance-weighted Gaussian blur
+ * 1. Extract silhouette from foreground alpha channel (after placing
+ *    the foreground on the background, if it has a transform)
+ * 2. Calculate light vector from angle/elevation (per light)
+ * 3. Detect contact line (bottom of each shape within a tolerance band,
+ *    or the manual contact line)
+ * 4. Project shadow based on light vector (per light), flat in image
+ *    space or onto a perspective ground plane, then onto the depth map
+ *    surface if one is given
+ * 5. Compute distance from contact line over the shadow region (per light)
+ * 6. Apply opacity falloff based on distance (per light), in the shadow
+ *    color (fixed, or tinted by the ambient light); build the contact
+ *    shadow layer if enabled
+ * 7. Apply distance-weighted Gaussian blur (per light), then combine
+ *    the light layers and contact shadow multiplicatively
  * 8. Generate debug mask
- * 9. Composite final image
+ * 9. Composite final image (shadow blended with config.blendMode)
+ *
+ * Steps 6-9 work on linear-light float buffers; background and
+ * foreground are decoded from sRGB once and the outputs re-encoded at
+ * the end.
+ *
+ * With config.workingResolution the pipeline runs on scaled-down copies
+ * and the shadow is upsampled to the input size, guided by the
+ * foreground's outline.
+ *
+ * generate() runs steps 1-7 and 9 only on the region a shadow can reach
+ * (the subject's bounding box grown by the longest shadow and the blur
+ * reach); outside it the composite is the background. With
+ * config.tiling that region is processed in overlapping tiles that fit
+ * a memory budget.
+ *
+ * generateScene() runs steps 1-7 per subject and adds the shadows the
+ * subjects cast onto each other before compositing them back to front.
+ *
+ * With GenerateOptions.session, generate() reuses the light-independent
+ * results (silhouette, contact line, distance map, contact shadow, ...)
+ * of earlier calls on the same images (ShadowSession).
  *
  * Returns: { shadowOnly, maskDebug, composite }
  */
 export class ShadowGenerator {
+  /** Number of steps reported through GenerateOptions.onProgress */
+  static readonly TOTAL_STEPS = 9;
+
+  /** Tiled generation does not shrink tiles below this side (nor below the halo) */
+  private static readonly MIN_TILE_SIZE = 64;
+
+  /**
+   * Working memory per crop pixel in tiled generation (bytes): the cropped
+   * images, silhouette, combined layer, compositing and blur scratch
+   */
+  private static readonly TILE_BYTES_PER_PIXEL = 96;
+
+  /**
+   * Working memory per crop pixel and light (bytes): shadow mask, distance
+   * map and the layer before and after blurring
+   */
+  private static readonly TILE_BYTES_PER_LIGHT_PIXEL = 72;
+
   private silhouetteExtractor: SilhouetteExtractor;
   private lightCalculator: LightVectorCalculator;
+  private lightEstimator: LightEstimator;
   private contactDetector: ContactLineDetector;
+  private contactOcclusion: ContactOcclusion;
   private distanceTransform: DistanceTransform;
   private shadowProjector: ShadowProjector;
   private blurEngine: BlurEngine;
+  private interSubjectShadow: InterSubjectShadow;
+  private guidedUpsampler: GuidedUpsampler;
+  private shadowReach: ShadowReach;
   private compositor: ShadowCompositor;
 
   constructor() {
     // Initialize all algorithm modules
     this.silhouetteExtractor = new SilhouetteExtractor();
     this.lightCalculator = new LightVectorCalculator();
+    this.lightEstimator = new LightEstimator();
     this.contactDetector = new ContactLineDetector();
+    this.contactOcclusion = new ContactOcclusion();
     this.distanceTransform = new DistanceTransform();
     this.shadowProjector = new ShadowProjector();
     this.blurEngine = new BlurEngine();
+    this.interSubjectShadow = new InterSubjectShadow();
+    this.guidedUpsampler = new GuidedUpsampler();
+    this.shadowReach = new ShadowReach(this.lightCalculator);
     this.compositor = new ShadowCompositor();
   }
 
@@ -52,128 +213,1431 @@ export class ShadowGenerator {
    *
    * @param images - Input images (foreground, background, optional depth map)
    * @param config - Shadow configuration (angle, elevation, opacity, etc.)
+   * @param options - Optional progress hook and session cache
    * @returns ShadowResult with all outputs
    */
-  generate(images: ImageSet, config: ShadowConfig): ShadowResult {
-    const width = images.foreground.width;
-    const height = images.foreground.height;
+  generate(
+    images: ImageSet,
+    config: ShadowConfig,
+    options: GenerateOptions = {}
+  ): ShadowResult {
+    const report = (step: number, label: string, stepProgress: number = 0) => {
+      options.onProgress?.({
+        step,
+        totalSteps: ShadowGenerator.TOTAL_STEPS,
+        label,
+        stepProgress
+      });
+    };
+
+    // Reduced working resolution: compute small, then upsample (or not)
+    const workingScale = this.getWorkingScale(config, images.background);
+    if (workingScale < 1) {
+      return this.generateAtWorkingScale(images, config, options, workingScale);
+    }
+
+    const session = options.session;
+
+    // Placed foreground: everything below happens in background space
+    const transform = images.foregroundTransform;
+    const foreground = transform
+      ? memo(
+          session,
+          'placedForeground',
+          [images.foreground, JSON.stringify(transform), images.background.width, images.background.height],
+          () => placeForeground(images.foreground, transform, images.background.width, images.background.height)
+        )
+      : images.foreground;
+
+    const width = foreground.width;
+    const height = foreground.height;
+
+    const lights = this.resolveLights(config);
 
     console.log('🎬 Starting shadow generation pipeline...');
     console.log(`   Image size: ${width}x${height}`);
-    console.log(`   Light angle: ${config.lightAngle}°`);
-    console.log(`   Light elevation: ${config.lightElevation}°`);
-
-    // STEP 1: Extract silhouette from alpha channel
-    console.log('📸 Step 1/9: Extracting silhouette...');
-    const silhouette = this.silhouetteExtractor.extract(images.foreground);
+    if (transform) {
+      console.log(
+        `   Foreground ${images.foreground.width}x${images.foreground.height} placed at ` +
+          `(${transform.x}, ${transform.y}), scale ${transform.scale ?? 1}, rotation ${transform.rotation ?? 0}°`
+      );
+    }
+    this.logLights(lights);
 
-    // STEP 2: Calculate light vector from angle/elevation
-    console.log('☀️  Step 2/9: Calculating light vector...');
-    const lightVector = this.lightCalculator.calculate(
-      config.lightAngle,
-      config.lightElevation
+    const shadowColor = memo(
+      session,
+      'shadowColor',
+      [images.background, JSON.stringify(config.shadowColor), JSON.stringify(config.ambientColor)],
+      () => this.resolveShadowColor(config, images.background)
     );
 
-    const shadowLengthMultiplier = this.lightCalculator.getShadowLengthMultiplier(
-      config.lightElevation
-    );
+    const depthMap = this.checkDepthMap(images.depthMap, width, height);
 
-    const shadowLength = shadowLengthMultiplier * config.maxShadowDistance;
+    // Only the region a shadow can reach is processed
+    const shadowRegion = this.findShadowRegion(foreground, config, lights, depthMap !== undefined, session);
 
-    console.log(`   Light vector: (${lightVector.dx.toFixed(3)}, ${lightVector.dy.toFixed(3)}, ${lightVector.dz.toFixed(3)})`);
-    console.log(`   Shadow length: ${shadowLength.toFixed(1)}px`);
+    // Very large images: that region tile by tile
+    if (config.tiling) {
+      return this.generateTiled(
+        foreground,
+        images.background,
+        depthMap,
+        shadowRegion,
+        config,
+        lights,
+        shadowColor,
+        report
+      );
+    }
 
-    // STEP 3: Detect contact line (lowest visible pixels)
-    console.log('🔍 Step 3/9: Detecting contact line...');
-    const contactLine = this.contactDetector.detect(silhouette, width, height);
-    console.log(`   Contact points: ${contactLine.points.length}`);
+    // Empty foreground: nothing to crop to
+    const region = shadowRegion.region ?? { x: 0, y: 0, width, height };
+    const cut = (image: PixelBuffer) =>
+      cropPixelBuffer(image, region.x, region.y, region.width, region.height);
 
-    // STEP 4: Calculate distance from contact line
-    console.log('📏 Step 4/9: Computing distance transform...');
-    const distanceMap = this.distanceTransform.compute(
-      silhouette,
-      contactLine,
+    // STEPS 1-7: Shadow layers of the foreground
+    const { lightLayers, contactLayer } = this.castShadows(
+      cut(foreground),
+      depthMap && cut(depthMap),
+      config,
+      lights.map((light) => this.translateLight(light, -region.x, -region.y)),
+      shadowColor,
+      report,
+      {},
+      this.getTileFrame(region, shadowRegion.contactLine, width, height),
+      session && this.getCachedStages(session, foreground, shadowRegion, region, config, shadowColor)
+    );
+
+    // Overlapping shadows darken each other multiplicatively
+    const layers = contactLayer ? [...lightLayers, contactLayer] : lightLayers;
+    const shadowLayer = layers.length === 1
+      ? layers[0]
+      : this.compositor.combineShadowLayers(layers);
+
+    // STEP 8: Generate mask debug output
+    console.log('🐛 Step 8/9: Generating debug mask...');
+    report(8, 'Generating debug mask');
+    const maskDebug = this.silhouetteExtractor.maskToImageData(
+      shadowRegion.silhouette,
       width,
       height
     );
 
-    // STEP 5: Project shadow based on light vector
-    console.log('🎯 Step 5/9: Projecting shadow...');
-    let shadowMask = this.shadowProjector.project(
-      silhouette,
-      width,
-      height,
-      lightVector,
-      shadowLength,
-      images.depthMap
+    // STEP 9: Composite final image (outside the region it is the background)
+    console.log('🎨 Step 9/9: Compositing final image...');
+    report(9, 'Compositing final image');
+    const composite = this.compositor.composite(
+      this.decodeRegion(images.background, region, 'linearBackground', session),
+      shadowLayer,
+      this.decodeRegion(foreground, region, 'linearForeground', session),
+      config.blendMode
     );
 
-    // Remove shadow pixels that are occluded by foreground
-    shadowMask = this.shadowProjector.removeOcclusions(
-      shadowMask,
-      silhouette,
-      width,
-      height
+    report(9, 'Compositing final image', 1);
+    console.log('✅ Shadow generation complete!');
+
+    return this.toResult(
+      config,
+      shadowLayer,
+      composite,
+      maskDebug,
+      { lightLayers, contactLayer },
+      { region, background: images.background }
     );
+  }
 
-    // STEP 6: Create shadow layer with opacity falloff
-    console.log('🌑 Step 6/9: Applying opacity falloff...');
-    let shadowLayer = this.compositor.createShadowLayer(
-      shadowMask,
-      distanceMap,
+  /**
+   * Generate shadows for several subjects on one background
+   *
+   * Every subject runs steps 1-7 on its own (placed on the background,
+   * with its own silhouette and contact line), then:
+   * - The floor shadows of all subjects and lights combine
+   *   multiplicatively
+   * - Each subject catches the shadows of the subjects standing between
+   *   it and the light (InterSubjectShadow)
+   * - Subjects are composited back to front, each followed by the shadow
+   *   it catches, so nearer subjects cover both
+   *
+   * config.manualContact is not used; give each subject its own
+   * SceneSubject.manualContact instead.
+   *
+   * @param scene - Background, optional depth map and subjects (back to front)
+   * @param config - Shadow configuration, shared by all subjects
+   * @param options - Optional progress hook (steps 1-7 repeat per subject)
+   * @returns ShadowResult at the background's size
+   */
+  generateScene(
+    scene: Scene,
+    config: ShadowConfig,
+    options: GenerateOptions = {}
+  ): ShadowResult {
+    const count = scene.subjects.length;
+    if (count === 0) {
+      throw new Error('Scene needs at least one subject');
+    }
+
+    const { width, height } = scene.background;
+    const lights = this.resolveLights(config);
+
+    console.log('🎬 Starting scene shadow generation...');
+    console.log(`   Image size: ${width}x${height}, ${count} subject(s)`);
+    this.logLights(lights);
+
+    const shadowColor = this.resolveShadowColor(config, scene.background);
+    const depthMap = this.checkDepthMap(scene.depthMap, width, height);
+
+    // STEPS 1-7 per subject
+    const subjects = scene.subjects.map((subject, s) => {
+      console.log(`👤 Subject ${s + 1}/${count}`);
+      const report = (step: number, label: string, stepProgress: number = 0) => {
+        options.onProgress?.({
+          step,
+          totalSteps: ShadowGenerator.TOTAL_STEPS,
+          label: `Subject ${s + 1}/${count}: ${label}`,
+          stepProgress
+        });
+      };
+
+      const image = subject.transform
+        ? placeForeground(subject.image, subject.transform, width, height)
+        : subject.image;
+      if (image.width !== width || image.height !== height) {
+        throw new Error(
+          `Subject ${s + 1} is ${image.width}x${image.height}; give it a transform or ` +
+            `the background's size (${width}x${height})`
+        );
+      }
+
+      return {
+        image,
+        ...this.castShadows(image, depthMap, config, lights, shadowColor, report, subject)
+      };
+    });
+
+    // Shadows the subjects catch from each other
+    console.log('🤝 Casting shadows between subjects...');
+    const receivedShadows = subjects.map((receiver, r) => {
+      const ground = this.shadowProjector.getGroundRows(receiver.contactLine, width);
+      const layers: FloatPixelBuffer[] = [];
+
+      subjects.forEach((caster, c) => {
+        if (c === r || caster.contactLine.points.length === 0) return;
+        const origin = centroid(caster.contactLine.points);
+
+        lights.forEach((light, i) => {
+          const layer = this.interSubjectShadow.receive(
+            caster.lightLayers[i],
+            origin,
+            receiver.coverage,
+            ground,
+            light.type === 'point' ? light : caster.lightVectors[i]!,
+            caster.groundPlane
+          );
+          if (layer) layers.push(layer);
+        });
+      });
+
+      if (layers.length === 0) return null;
+      console.log(`   Subject ${r + 1} is shadowed by the others`);
+      return layers.length === 1 ? layers[0] : this.compositor.combineShadowLayers(layers);
+    });
+
+    // Floor shadows of every subject and light darken each other multiplicatively
+    const floorLayers = subjects.flatMap((subject) =>
+      subject.contactLayer ? [...subject.lightLayers, subject.contactLayer] : subject.lightLayers
+    );
+    const shadowLayer = floorLayers.length === 1
+      ? floorLayers[0]
+      : this.compositor.combineShadowLayers(floorLayers);
+
+    // STEP 8: Generate mask debug output (all subjects)
+    console.log('🐛 Step 8/9: Generating debug mask...');
+    options.onProgress?.({ step: 8, totalSteps: ShadowGenerator.TOTAL_STEPS, label: 'Generating debug mask', stepProgress: 0 });
+    const silhouette = new Uint8Array(width * height);
+    for (const subject of subjects) {
+      for (let i = 0; i < silhouette.length; i++) {
+        silhouette[i] |= subject.silhouette[i];
+      }
+    }
+    const maskDebug = this.silhouetteExtractor.maskToImageData(silhouette, width, height);
+
+    // STEP 9: Composite final image
+    console.log('🎨 Step 9/9: Compositing final image...');
+    options.onProgress?.({ step: 9, totalSteps: ShadowGenerator.TOTAL_STEPS, label: 'Compositing final image', stepProgress: 0 });
+    const composite = this.compositor.compositeScene(
+      decodePixelBuffer(scene.background),
+      shadowLayer,
+      subjects.map((subject, s) => ({
+        image: decodePixelBuffer(subject.image),
+        receivedShadow: receivedShadows[s]
+      })),
+      config.blendMode
+    );
+
+    options.onProgress?.({ step: 9, totalSteps: ShadowGenerator.TOTAL_STEPS, label: 'Compositing final image', stepProgress: 1 });
+    console.log('✅ Scene shadow generation complete!');
+
+    // Separate layers: per light and contact shadow across all subjects
+    const combine = (layers: FloatPixelBuffer[]): FloatPixelBuffer =>
+      layers.length === 1 ? layers[0] : this.compositor.combineShadowLayers(layers);
+    const contactLayers = subjects.flatMap((subject) => subject.contactLayer ? [subject.contactLayer] : []);
+
+    return this.toResult(
       config,
+      shadowLayer,
+      composite,
+      maskDebug,
+      config.includeLightLayers
+        ? {
+            lightLayers: lights.map((_, i) => combine(subjects.map((subject) => subject.lightLayers[i]))),
+            contactLayer: contactLayers.length > 0 ? combine(contactLayers) : null,
+            receivedShadows: receivedShadows.map((layer) => layer ?? createFloatPixelBuffer(width, height))
+          }
+        : { lightLayers: [], contactLayer: null }
+    );
+  }
+
+  /**
+   * generate() at a reduced working resolution (config.workingResolution)
+   *
+   * The inputs and every pixel-valued setting are scaled down, the
+   * pipeline runs at that size and, for 'full' output, the shadow layers
+   * are upsampled to the input size (GuidedUpsampler) and composited with
+   * the full-size background and foreground.
+   *
+   * @param images - Input images at full size
+   * @param config - Shadow configuration in full-size pixels
+   * @param options - Optional progress hook and session cache
+   * @param scale - Working size / full size (< 1)
+   * @returns ShadowResult at the full or the working size
+   */
+  private generateAtWorkingScale(
+    images: ImageSet,
+    config: ShadowConfig,
+    options: GenerateOptions,
+    scale: number
+  ): ShadowResult {
+    const { background } = images;
+    const session = options.session;
+    const resize = (stage: string, image: PixelBuffer) =>
+      memo(session, stage, [image, scale], () =>
+        resizePixelBuffer(
+          image,
+          Math.max(1, Math.round(image.width * scale)),
+          Math.max(1, Math.round(image.height * scale))
+        )
+      );
+
+    const workingBackground = resize('workingBackground', background);
+    const fullOutput = (config.workingResolution?.output ?? 'full') === 'full';
+
+    console.log(
+      `🔎 Working resolution: ${workingBackground.width}x${workingBackground.height} ` +
+        `(input ${background.width}x${background.height})`
+    );
+
+    // A placed foreground is resampled once, straight to the working size
+    const transform = images.foregroundTransform;
+    const workingForeground = transform
+      ? memo(session, 'workingForeground', [images.foreground, JSON.stringify(transform), workingBackground], () =>
+          placeForeground(
+            images.foreground,
+            {
+              ...transform,
+              x: transform.x * scale,
+              y: transform.y * scale,
+              scale: (transform.scale ?? 1) * scale
+            },
+            workingBackground.width,
+            workingBackground.height
+          )
+        )
+      : resize('workingForeground', images.foreground);
+
+    const working = this.generate(
+      {
+        foreground: workingForeground,
+        background: workingBackground,
+        depthMap: images.depthMap && resize('workingDepthMap', images.depthMap)
+      },
+      {
+        ...this.scaleConfig(config, scale),
+        workingResolution: undefined,
+        // The working images are small enough in one piece
+        tiling: undefined,
+        // The upsampling below needs the float layers at the working size
+        ...(fullOutput ? { keepFloatBuffers: true, cropLayers: false } : {})
+      },
+      options
+    );
+
+    if (!fullOutput) return working;
+
+    // Upsample the layers, keeping their edges on the full-size outline
+    console.log(`🔼 Upsampling shadow to ${background.width}x${background.height}...`);
+    options.onProgress?.({
+      step: ShadowGenerator.TOTAL_STEPS,
+      totalSteps: ShadowGenerator.TOTAL_STEPS,
+      label: 'Upsampling to full resolution',
+      stepProgress: 0
+    });
+
+    const foreground = transform
+      ? memo(
+          session,
+          'placedForeground',
+          [images.foreground, JSON.stringify(transform), background.width, background.height],
+          () => placeForeground(images.foreground, transform, background.width, background.height)
+        )
+      : images.foreground;
+    const width = foreground.width;
+    const height = foreground.height;
+
+    const lowGuide = memo(session, 'workingGuide', [workingForeground], () =>
+      this.silhouetteExtractor.extractCoverage(workingForeground)
+    );
+    const fullGuide = memo(session, 'fullGuide', [foreground], () =>
+      this.silhouetteExtractor.extractCoverage(foreground)
+    );
+    const upsample = (layer: FloatPixelBuffer) =>
+      this.guidedUpsampler.upsample(layer, lowGuide, fullGuide, width, height);
+
+    // Shadow region scaled up, with slack for the bilinear footprint
+    const workingRegion = working.region!;
+    const x0 = Math.floor(workingRegion.x / scale);
+    const y0 = Math.floor(workingRegion.y / scale);
+    const region = clipRect(
+      unionRect(
+        expandRect(
+          {
+            x: x0,
+            y: y0,
+            width: Math.ceil((workingRegion.x + workingRegion.width) / scale) - x0,
+            height: Math.ceil((workingRegion.y + workingRegion.height) / scale) - y0
+          },
+          Math.ceil(1 / scale) + 1
+        ),
+        getAlphaBounds(foreground)
+      ),
       width,
       height
     );
+    const upsampleRegion = (layer: FloatPixelBuffer) =>
+      cropFloatPixelBuffer(upsample(layer), region.x, region.y, region.width, region.height);
 
-    // STEP 7: Apply distance-weighted blur
-    console.log('🌫️  Step 7/9: Applying Gaussian blur...');
-    console.log(`   Blur range: ${config.minBlurRadius}px - ${config.maxBlurRadius}px`);
-    shadowLayer = this.blurEngine.applyDistanceWeightedBlur(
-      shadowLayer,
-      distanceMap,
-      config.minBlurRadius,
-      config.maxBlurRadius,
-      config.maxShadowDistance
+    const linear = working.linear!;
+    const shadowLayer = upsampleRegion(linear.shadowOnly);
+    const lightLayers = (linear.lightLayers ?? []).map((layer) =>
+      layer === linear.shadowOnly ? shadowLayer : upsampleRegion(layer)
     );
+    const contactLayer = linear.contactLayer ? upsampleRegion(linear.contactLayer) : null;
 
-    // STEP 8: Generate mask debug output
-    console.log('🐛 Step 8/9: Generating debug mask...');
     const maskDebug = this.silhouetteExtractor.maskToImageData(
-      silhouette,
+      memo(session, 'fullSilhouette', [foreground], () => this.silhouetteExtractor.extract(foreground)),
       width,
       height
     );
-
-    // STEP 9: Composite final image
-    console.log('🎨 Step 9/9: Compositing final image...');
     const composite = this.compositor.composite(
-      images.background,
+      this.decodeRegion(background, region, 'fullLinearBackground', session),
       shadowLayer,
-      images.foreground
+      this.decodeRegion(foreground, region, 'fullLinearForeground', session),
+      config.blendMode
+    );
+
+    options.onProgress?.({
+      step: ShadowGenerator.TOTAL_STEPS,
+      totalSteps: ShadowGenerator.TOTAL_STEPS,
+      label: 'Upsampling to full resolution',
+      stepProgress: 1
+    });
+    console.log('✅ Upsampled to full resolution');
+
+    return this.toResult(
+      config,
+      shadowLayer,
+      composite,
+      maskDebug,
+      { lightLayers, contactLayer },
+      { region, background }
+    );
+  }
+
+  /**
+   * Working size / input size for config.workingResolution
+   * (1 when it is not set or the background is already small enough)
+   */
+  private getWorkingScale(config: ShadowConfig, background: PixelBuffer): number {
+    const maxDimension = config.workingResolution?.maxDimension;
+    if (!maxDimension || maxDimension <= 0) return 1;
+
+    return Math.min(1, maxDimension / Math.max(background.width, background.height));
+  }
+
+  /**
+   * Scale every pixel-valued setting, for rendering at another size
+   */
+  private scaleConfig(config: ShadowConfig, scale: number): ShadowConfig {
+    const point = (p: { x: number; y: number }) => ({ x: p.x * scale, y: p.y * scale });
+    const { lights, groundPlane, contactShadow, contactTolerance, manualContact } = config;
+
+    return {
+      ...config,
+      maxShadowDistance: config.maxShadowDistance * scale,
+      minBlurRadius: config.minBlurRadius * scale,
+      maxBlurRadius: config.maxBlurRadius * scale,
+      depthScale: (config.depthScale ?? 100) * scale,
+      ...(lights
+        ? {
+            lights: lights.map((light): LightSource =>
+              light.type === 'point'
+                ? {
+                    ...light,
+                    ...point(light),
+                    height: light.height * scale,
+                    ...(light.spot
+                      ? {
+                          spot: {
+                            ...light.spot,
+                            targetX: light.spot.targetX * scale,
+                            targetY: light.spot.targetY * scale
+                          }
+                        }
+                      : {})
+                  }
+                : light
+            )
+          }
+        : {}),
+      ...(groundPlane
+        ? {
+            groundPlane: 'floorPoints' in groundPlane
+              ? { ...groundPlane, floorPoints: groundPlane.floorPoints.map(point) }
+              : {
+                  ...groundPlane,
+                  ...('horizonY' in groundPlane ? { horizonY: groundPlane.horizonY * scale } : {}),
+                  ...(groundPlane.focalLength !== undefined
+                    ? { focalLength: groundPlane.focalLength * scale }
+                    : {})
+                }
+          }
+        : {}),
+      ...(contactShadow
+        ? { contactShadow: { ...contactShadow, radius: (contactShadow.radius ?? 12) * scale } }
+        : {}),
+      ...(contactTolerance !== undefined ? { contactTolerance: contactTolerance * scale } : {}),
+      ...(manualContact ? { manualContact: manualContact.map((line) => line.map(point)) } : {})
+    };
+  }
+
+  /**
+   * Find the part of the image a shadow can reach, so the expensive
+   * steps run on it only
+   *
+   * - The silhouette and contact line are found once for the whole image
+   *   (the contact line on the subject's bounding box)
+   * - Region: the subject's bounding box grown by the halo (the longest
+   *   shadow of any light plus the blur reach) and the contact shadow
+   *   around the footprint; outside it there is no shadow and no
+   *   foreground
+   *
+   * @param foreground - Foreground at the background's size (placed)
+   * @param config - Shadow configuration
+   * @param lights - Resolved lights
+   * @param hasDepthMap - Whether shadows land on a depth map surface
+   * @param session - Optional cache for the light-independent part
+   * @returns Region, halo and the whole subject's silhouette and contact line
+   */
+  private findShadowRegion(
+    foreground: PixelBuffer,
+    config: ShadowConfig,
+    lights: LightSource[],
+    hasDepthMap: boolean,
+    session?: ShadowSession
+  ): ShadowRegion {
+    const { width, height } = foreground;
+    const { silhouette, subjectBounds, contactLine, contactBounds } = memo(
+      session,
+      'subject',
+      [foreground, JSON.stringify(config.manualContact), config.contactTolerance],
+      () => this.findSubject(foreground, config)
     );
 
+    if (!subjectBounds) {
+      return { silhouette, contactLine, contactBounds, region: null, halo: 0 };
+    }
+
+    const reach = Math.max(...lights.map((light) =>
+      this.shadowReach.getShadowReach(light, config, contactLine, subjectBounds, hasDepthMap, width, height)
+    ));
+    const maxBlurRadius = this.shadowReach.getMaxBlurRadius(
+      lights,
+      config,
+      contactLine,
+      reach + Math.hypot(subjectBounds.width, subjectBounds.height)
+    );
+    const halo = Math.ceil(reach) + this.blurEngine.getHalo(maxBlurRadius);
+
+    // Starts on even pixels, like every crop (half resolution blur levels)
+    const contactRadius = config.contactShadow ? Math.ceil(config.contactShadow.radius ?? 12) : 0;
+    const region = alignRect(clipRect(
+      unionRect(expandRect(subjectBounds, halo), contactBounds && expandRect(contactBounds, contactRadius)),
+      width,
+      height
+    ), 2);
+
+    const share = (100 * region.width * region.height) / (width * height);
+    console.log(`🔲 Shadow region: ${region.width}x${region.height} at (${region.x}, ${region.y}), ${share.toFixed(0)}% of the image`);
+
+    return { silhouette, contactLine, contactBounds, region, halo };
+  }
+
+  /**
+   * Silhouette, bounding box and contact line of the whole subject
+   * (the light-independent part of findShadowRegion)
+   */
+  private findSubject(
+    foreground: PixelBuffer,
+    config: ShadowConfig
+  ): Pick<ShadowRegion, 'silhouette' | 'contactLine' | 'contactBounds'> & { subjectBounds: ImageRegion | null } {
+    const { width, height } = foreground;
+    const silhouette = this.silhouetteExtractor.extract(foreground);
+    const subjectBounds = getAlphaBounds(foreground);
+
+    const manualLine = config.manualContact
+      ? this.manualContactLine(config.manualContact, width, height)
+      : null;
+    let contactLine: ContactLine = manualLine ?? { points: [] };
+    if (!manualLine && subjectBounds) {
+      const { x, y, width: w, height: h } = subjectBounds;
+      const mask = cropPlane(silhouette, width, x, y, w, h);
+      contactLine = this.translateContactLine(
+        this.contactDetector.detect(mask, w, h, config.contactTolerance),
+        x,
+        y
+      );
+    }
+
+    return { silhouette, subjectBounds, contactLine, contactBounds: getPointBounds(contactLine.points) };
+  }
+
+  /**
+   * generate() in overlapping tiles (config.tiling), for images too large
+   * to process in one piece
+   *
+   * The shadow region is split into the largest tiles whose working
+   * buffers fit the memory budget. Each tile runs steps 1-7 on a crop
+   * that adds the halo and the whole contact line, so its interior comes
+   * out as in the untiled pipeline, and only the interior is kept.
+   *
+   * @param foreground - Foreground at the background's size (placed)
+   * @param background - Background image
+   * @param depthMap - Optional depth map at the background's size
+   * @param shadowRegion - Region a shadow can reach (findShadowRegion)
+   * @param config - Shadow configuration with tiling set
+   * @param lights - Resolved lights
+   * @param shadowColor - Resolved shadow color
+   * @param report - Progress callback
+   * @returns ShadowResult (never with linear buffers)
+   */
+  private generateTiled(
+    foreground: PixelBuffer,
+    background: PixelBuffer,
+    depthMap: PixelBuffer | undefined,
+    shadowRegion: ShadowRegion,
+    config: ShadowConfig,
+    lights: LightSource[],
+    shadowColor: RGBColor,
+    report: (step: number, label: string, stepProgress?: number) => void
+  ): ShadowResult {
+    const { width, height } = background;
+    const { contactLine, contactBounds, region, halo } = shadowRegion;
+    const budget = config.tiling!.memoryBudget * 1024 * 1024;
+
+    if (config.keepFloatBuffers) {
+      console.warn('⚠️  keepFloatBuffers is not supported with tiling; no float buffers returned');
+    }
+
+    // Largest tiles whose crops fit the budget
+    const cropOf = (tile: ImageRegion): ImageRegion =>
+      alignRect(clipRect(unionRect(expandRect(tile, halo), contactBounds), width, height), 2);
+    const bytesPerPixel =
+      ShadowGenerator.TILE_BYTES_PER_PIXEL + ShadowGenerator.TILE_BYTES_PER_LIGHT_PIXEL * lights.length;
+
+    let tiles: ImageRegion[] = [];
+    if (region) {
+      // Tiles smaller than the halo would mostly recompute each other's overlap
+      const plan = planTiles(
+        region,
+        cropOf,
+        budget / bytesPerPixel,
+        Math.max(ShadowGenerator.MIN_TILE_SIZE, halo),
+        config.tiling!.maxTileSize
+      );
+      tiles = plan.tiles;
+      const tileSize = plan.size;
+
+      const tileMegabytes = (getLargestCrop(tiles, cropOf) * bytesPerPixel) / (1024 * 1024);
+      console.log(
+        `🧩 Tiling: ${region.width}x${region.height} shadow region in ${tiles.length} tile(s) ` +
+          `of up to ${tileSize}px, halo ${halo}px (~${tileMegabytes.toFixed(0)} MB per tile)`
+      );
+      if (tileMegabytes > config.tiling!.memoryBudget) {
+        console.warn(
+          `⚠️  Memory budget of ${config.tiling!.memoryBudget} MB cannot be met; ` +
+            `the shadow halo alone needs ~${tileMegabytes.toFixed(0)} MB per tile`
+        );
+      }
+    } else {
+      console.log('🧩 Tiling: empty foreground, no shadow region');
+    }
+
+    // Outside the region the composite is the background; tiles add the
+    // shadow and foreground
+    const composite = clonePixelBuffer(background);
+
+    // Layers at the image size, or just the region's (cropLayers)
+    const layerRegion = region ?? { x: 0, y: 0, width, height };
+    const layerFrame = config.cropLayers ? layerRegion : { x: 0, y: 0, width, height };
+    const createLayer = () => createPixelBuffer(layerFrame.width, layerFrame.height);
+
+    const shadowOnly = createLayer();
+    const contactOpacity = config.contactShadow ? config.contactShadow.opacity ?? 0.6 : 0;
+    // Single light, no contact shadow: its layer is the shadow layer
+    const ownLightLayers = lights.length > 1 || contactOpacity > 0;
+    const lightLayers = config.includeLightLayers
+      ? lights.map(() => (ownLightLayers ? createLayer() : shadowOnly))
+      : [];
+    const contactLayer = config.includeLightLayers && contactOpacity > 0 ? createLayer() : null;
+
+    // STEPS 1-7 and 9 per tile
+    tiles.forEach((tile, t) => {
+      const tileLabel = `Tile ${t + 1}/${tiles.length}`;
+      console.log(`🧩 ${tileLabel}: ${tile.width}x${tile.height} at (${tile.x}, ${tile.y})`);
+      const tileReport = (step: number, label: string, stepProgress: number = 0) =>
+        report(step, `${tileLabel}: ${label}`, stepProgress);
+
+      const crop = cropOf(tile);
+      const cut = (image: PixelBuffer) => cropPixelBuffer(image, crop.x, crop.y, crop.width, crop.height);
+      const shadows = this.castShadows(
+        cut(foreground),
+        depthMap && cut(depthMap),
+        config,
+        lights.map((light) => this.translateLight(light, -crop.x, -crop.y)),
+        shadowColor,
+        tileReport,
+        {},
+        this.getTileFrame(crop, contactLine, width, height)
+      );
+
+      // Only the tile's interior is exact
+      const interior = (layer: FloatPixelBuffer) =>
+        cropFloatPixelBuffer(layer, tile.x - crop.x, tile.y - crop.y, tile.width, tile.height);
+      const place = (target: PixelBuffer, layer: FloatPixelBuffer) =>
+        pastePixelBuffer(target, encodePixelBuffer(layer), tile.x - layerFrame.x, tile.y - layerFrame.y);
+
+      const layers = shadows.contactLayer ? [...shadows.lightLayers, shadows.contactLayer] : shadows.lightLayers;
+      const shadowLayer = interior(
+        layers.length === 1 ? layers[0] : this.compositor.combineShadowLayers(layers)
+      );
+      place(shadowOnly, shadowLayer);
+
+      if (ownLightLayers) {
+        lightLayers.forEach((layer, i) => place(layer, interior(shadows.lightLayers[i])));
+      }
+      if (contactLayer && shadows.contactLayer) {
+        place(contactLayer, interior(shadows.contactLayer));
+      }
+
+      console.log('🎨 Step 9/9: Compositing tile...');
+      tileReport(9, 'Compositing final image');
+      pastePixelBuffer(
+        composite,
+        this.compositeRect(background, foreground, shadowLayer, tile, config),
+        tile.x,
+        tile.y
+      );
+    });
+
+    // STEP 8: Generate mask debug output (whole image)
+    console.log('🐛 Step 8/9: Generating debug mask...');
+    report(8, 'Generating debug mask');
+    const maskDebug = this.silhouetteExtractor.maskToImageData(shadowRegion.silhouette, width, height);
+
+    report(9, 'Compositing final image', 1);
     console.log('✅ Shadow generation complete!');
 
     return {
-      shadowOnly: shadowLayer,
+      shadowOnly,
+      maskDebug,
+      composite,
+      ...(config.includeLightLayers
+        ? { lightLayers, ...(contactLayer ? { contactLayer } : {}) }
+        : {}),
+      region: layerRegion
+    };
+  }
+
+  /**
+   * Composite one rectangle of the image (tiled generation)
+   */
+  private compositeRect(
+    background: PixelBuffer,
+    foreground: PixelBuffer,
+    shadow: FloatPixelBuffer,
+    rect: ImageRegion,
+    config: ShadowConfig
+  ): PixelBuffer {
+    const cut = (image: PixelBuffer) =>
+      decodePixelBuffer(cropPixelBuffer(image, rect.x, rect.y, rect.width, rect.height));
+
+    return encodePixelBuffer(this.compositor.composite(
+      cut(background),
+      shadow,
+      cut(foreground),
+      config.blendMode
+    ));
+  }
+
+  /**
+   * Steps 1-7 for one subject: silhouette, contact line and the blurred
+   * shadow layer of every light (plus the contact shadow layer)
+   *
+   * @param foreground - Subject at the background's size (a crop of it with frame)
+   * @param depthMap - Optional depth map of the background (cropped alike, same size as the foreground)
+   * @param config - Shadow configuration
+   * @param lights - Resolved lights
+   * @param shadowColor - Resolved shadow color
+   * @param report - Progress callback
+   * @param subject - Manual contact line and height above the floor
+   * @param frame - For a crop of the image (tiled generation): its place
+   *                in the image and the contact line to use
+   * @param cached - Light-independent stages kept in a ShadowSession,
+   *                 already cropped like foreground
+   * @returns The subject's silhouette, contact line and shadow layers
+   */
+  private castShadows(
+    foreground: PixelBuffer,
+    depthMap: PixelBuffer | undefined,
+    config: ShadowConfig,
+    lights: LightSource[],
+    shadowColor: RGBColor,
+    report: (step: number, label: string, stepProgress?: number) => void,
+    subject: Pick<SceneSubject, 'manualContact' | 'heightOffset'>,
+    frame?: TileFrame,
+    cached?: CachedStages
+  ): SubjectShadows {
+    const width = foreground.width;
+    const height = foreground.height;
+
+    // Per-light steps report progress as the fraction of lights done
+    const reportLight = (step: number, label: string, index: number) =>
+      report(step, label, lights.length > 1 ? index / lights.length : 0);
+
+    // STEP 1: Extract silhouette from alpha channel
+    console.log('📸 Step 1/9: Extracting silhouette...');
+    report(1, 'Extracting silhouette');
+    const silhouette = cached?.silhouette ?? this.silhouetteExtractor.extract(foreground);
+    const coverage = cached?.coverage ?? this.silhouetteExtractor.extractCoverage(foreground);
+
+    // STEP 2: Calculate light vector from angle/elevation
+    console.log('☀️  Step 2/9: Calculating light vector...');
+    const lightVectors = lights.map((light, i) => {
+      reportLight(2, 'Calculating light vector', i);
+
+      // Point lights have a direction per pixel (step 4)
+      if (light.type === 'point') return null;
+
+      const lightVector = this.lightCalculator.calculate(light.angle, light.elevation);
+      const shadowLength =
+        this.lightCalculator.getShadowLengthMultiplier(light.elevation) * config.maxShadowDistance;
+
+      console.log(`   Light vector: (${lightVector.dx.toFixed(3)}, ${lightVector.dy.toFixed(3)}, ${lightVector.dz.toFixed(3)})`);
+      console.log(`   Shadow length: ${shadowLength.toFixed(1)}px`);
+      return { lightVector, shadowLength };
+    });
+
+    // STEP 3: Detect contact line (where the silhouette rests on the ground)
+    console.log('🔍 Step 3/9: Detecting contact line...');
+    report(3, 'Detecting contact line');
+    const manualLine = !frame && subject.manualContact
+      ? this.manualContactLine(subject.manualContact, width, height)
+      : null;
+    let contactLine = frame
+      ? frame.contactLine
+      : manualLine ?? this.contactDetector.detect(silhouette, width, height, config.contactTolerance);
+    console.log(
+      `   Contact points: ${contactLine.points.length} in ${contactLine.segments?.length ?? 0} segment(s)` +
+        (frame ? ' (whole subject)' : manualLine ? ' (manual)' : '')
+    );
+
+    // Raised subject: the floor is heightOffset pixels below its base
+    const heightOffset = subject.heightOffset ?? 0;
+    if (heightOffset > 0) {
+      contactLine = this.lowerContactLine(contactLine, heightOffset, height);
+      console.log(`   Raised ${heightOffset}px above the floor`);
+    }
+
+    // STEP 4: Project shadow based on light vector
+    console.log('🎯 Step 4/9: Projecting shadow...');
+
+    // Rays from a point light level with or above the subject are cut off
+    // at the longest directional shadow (elevation ≈ 0°)
+    const maxPointShadow = this.lightCalculator.getShadowLengthMultiplier(0) * config.maxShadowDistance;
+
+    // Perspective floor: cast in floor coordinates instead of image space
+    const groundPlane = config.groundPlane
+      ? new GroundPlane(config.groundPlane, frame?.width ?? width, frame?.height ?? height, frame)
+      : null;
+
+    // Depth map: the surface shadows land on (size checked by the caller)
+    const heightField = depthMap
+      ? new HeightField(depthMap, contactLine, config.depthScale, config.depthNear)
+      : null;
+
+    const shadowMasks = lights.map((light, i) => {
+      reportLight(4, 'Projecting shadow', i);
+
+      let shadowMask: Float32Array;
+      if (groundPlane) {
+        shadowMask = this.shadowProjector.projectOnGround(
+          coverage,
+          width,
+          height,
+          groundPlane,
+          light.type === 'point' ? light : lightVectors[i]!.lightVector,
+          contactLine,
+          maxPointShadow
+        );
+      } else if (light.type === 'point') {
+        shadowMask = this.shadowProjector.projectFromPoint(
+          coverage,
+          width,
+          height,
+          light,
+          contactLine,
+          maxPointShadow
+        );
+      } else {
+        shadowMask = this.shadowProjector.project(
+          coverage,
+          width,
+          height,
+          lightVectors[i]!.lightVector,
+          lightVectors[i]!.shadowLength,
+          frame
+        );
+
+        // Raised subject: the same shadow dropped to the floor and pushed
+        // away from the light by heightOffset / tan(elevation)
+        if (heightOffset > 0) {
+          const { dx, dy, dz } = lightVectors[i]!.lightVector;
+          const flat = Math.hypot(dx, dy);
+          const run = flat > 1e-6 ? Math.min((heightOffset * flat) / Math.max(dz, 1e-3), maxPointShadow) : 0;
+          shadowMask = this.shadowProjector.offset(
+            shadowMask,
+            width,
+            height,
+            flat > 1e-6 ? (-dx / flat) * run : 0,
+            heightOffset + (flat > 1e-6 ? (-dy / flat) * run : 0)
+          );
+        }
+      }
+
+      // Uneven receiver: move the floor shadow onto the depth map surface
+      if (heightField) {
+        shadowMask = heightField.castShadow(
+          shadowMask,
+          light.type === 'point' ? light : lightVectors[i]!.lightVector,
+          groundPlane
+        );
+      }
+
+      // Remove shadow pixels that are occluded by foreground
+      return this.shadowProjector.removeOcclusions(
+        shadowMask,
+        coverage,
+        width,
+        height
+      );
+    });
+
+    // STEP 5: Calculate distance from contact line (shadow pixels and their surroundings)
+    console.log('📏 Step 5/9: Computing distance transform...');
+    const distanceMaps = lights.map((light, i) => {
+      reportLight(5, 'Computing distance transform', i);
+      let distanceMap: DistanceMap;
+      if (config.distanceMode === 'lightDirection') {
+        const direction = light.type === 'point'
+          ? { fromX: light.x, fromY: light.y }
+          : this.getShadowDirection(lightVectors[i]!.lightVector, contactLine, groundPlane);
+        distanceMap = this.distanceTransform.compute(contactLine, width, height, direction);
+      } else {
+        // Euclidean: the same for every light
+        distanceMap = cached?.distanceMap ?? this.distanceTransform.compute(contactLine, width, height);
+      }
+
+      const distanceStats = this.distanceTransform.getStatistics(distanceMap, shadowMasks[i]);
+      console.log(`   Shadow distance range: ${distanceStats.min.toFixed(1)}px - ${distanceStats.max.toFixed(1)}px`);
+      return distanceMap;
+    });
+
+    // STEP 6: Create shadow layer with opacity falloff
+    console.log('🌑 Step 6/9: Applying opacity falloff...');
+    const unblurredLayers = lights.map((light, i) => {
+      reportLight(6, 'Applying opacity falloff', i);
+      return this.compositor.createShadowLayer(
+        shadowMasks[i],
+        distanceMaps[i],
+        config,
+        width,
+        height,
+        light.intensity ?? 1,
+        light.type === 'point'
+          ? this.lightCalculator.getSpotFalloffMap(light, width, height)
+          : undefined,
+        shadowColor
+      );
+    });
+
+    // Contact shadow: light-independent, already soft (not blurred)
+    const contactShadow = config.contactShadow;
+    const contactLayer = cached
+      ? cached.contactLayer
+      : contactShadow
+        ? this.createContactLayer(contactShadow, contactLine, coverage, width, height, shadowColor)
+        : null;
+
+    // STEP 7: Apply distance-weighted blur
+    console.log('🌫️  Step 7/9: Applying Gaussian blur...');
+    report(7, 'Applying Gaussian blur');
+    const lightLayers = lights.map((light, i) => {
+      const onBlurProgress = (fraction: number) =>
+        report(7, 'Applying Gaussian blur', (i + fraction) / lights.length);
+
+      if (light.lightSize !== undefined) {
+        // Area light: penumbra follows occluder-to-receiver distance
+        const elevation = light.type === 'point'
+          ? this.lightCalculator.getPointLightElevation(light, contactLine)
+          : light.elevation;
+        const penumbraScale = this.lightCalculator.getPenumbraScale(elevation, light.lightSize);
+        console.log(`   Light size: ${light.lightSize}° (penumbra ${penumbraScale.toFixed(3)}px per px)`);
+        return this.blurEngine.applyPenumbraBlur(
+          unblurredLayers[i],
+          distanceMaps[i],
+          penumbraScale,
+          onBlurProgress
+        );
+      }
+
+      console.log(`   Blur range: ${config.minBlurRadius}px - ${config.maxBlurRadius}px`);
+      return this.blurEngine.applyDistanceWeightedBlur(
+        unblurredLayers[i],
+        distanceMaps[i],
+        config.minBlurRadius,
+        config.maxBlurRadius,
+        config.maxShadowDistance,
+        onBlurProgress
+      );
+    });
+
+    return {
+      silhouette,
+      coverage,
+      contactLine,
+      lightVectors: lightVectors.map((entry) => entry?.lightVector ?? null),
+      groundPlane,
+      lightLayers,
+      contactLayer
+    };
+  }
+
+  /**
+   * Encode the float outputs and pick the optional ones config asks for
+   * (with a single light and no contact shadow, shadowOnly and
+   * lightLayers[0] are the same layer and share one encoding)
+   *
+   * With a frame, the layers and composite cover only frame.region: the
+   * layers are returned cropped (config.cropLayers) or placed in empty
+   * ones of the background's size, and the composite is placed on the
+   * background.
+   */
+  private toResult(
+    config: ShadowConfig,
+    shadowLayer: FloatPixelBuffer,
+    composite: FloatPixelBuffer,
+    maskDebug: PixelBuffer,
+    layers: {
+      lightLayers: FloatPixelBuffer[];
+      contactLayer: FloatPixelBuffer | null;
+      receivedShadows?: FloatPixelBuffer[];
+    },
+    frame?: { region: ImageRegion; background: PixelBuffer }
+  ): ShadowResult {
+    const { lightLayers, contactLayer, receivedShadows } = layers;
+
+    // Region-sized layers to the size they are returned at
+    const placement = frame && !config.cropLayers ? frame : null;
+    const place = (layer: PixelBuffer): PixelBuffer => {
+      if (!placement) return layer;
+      const placed = createPixelBuffer(placement.background.width, placement.background.height);
+      pastePixelBuffer(placed, layer, placement.region.x, placement.region.y);
+      return placed;
+    };
+    const placeFloat = (layer: FloatPixelBuffer): FloatPixelBuffer => {
+      if (!placement) return layer;
+      const placed = createFloatPixelBuffer(placement.background.width, placement.background.height);
+      pasteFloatPixelBuffer(placed, layer, placement.region.x, placement.region.y);
+      return placed;
+    };
+
+    const shadowOnly = place(encodePixelBuffer(shadowLayer));
+    let encodedComposite = encodePixelBuffer(composite);
+    if (frame) {
+      const full = clonePixelBuffer(frame.background);
+      pastePixelBuffer(full, encodedComposite, frame.region.x, frame.region.y);
+      encodedComposite = full;
+    }
+
+    let linear: LinearShadowResult | undefined;
+    if (config.keepFloatBuffers) {
+      const linearShadow = placeFloat(shadowLayer);
+      let linearComposite = composite;
+      if (frame) {
+        linearComposite = decodePixelBuffer(frame.background);
+        pasteFloatPixelBuffer(linearComposite, composite, frame.region.x, frame.region.y);
+      }
+
+      linear = {
+        shadowOnly: linearShadow,
+        composite: linearComposite,
+        ...(config.includeLightLayers
+          ? {
+              lightLayers: lightLayers.map((layer) => (layer === shadowLayer ? linearShadow : placeFloat(layer))),
+              ...(contactLayer ? { contactLayer: placeFloat(contactLayer) } : {}),
+              ...(receivedShadows ? { receivedShadows } : {})
+            }
+          : {})
+      };
+    }
+
+    return {
+      shadowOnly,
       maskDebug: maskDebug,
-      composite: composite
+      composite: encodedComposite,
+      ...(config.includeLightLayers
+        ? {
+            lightLayers: lightLayers.map((layer) =>
+              layer === shadowLayer ? shadowOnly : place(encodePixelBuffer(layer))
+            ),
+            ...(contactLayer ? { contactLayer: place(encodePixelBuffer(contactLayer)) } : {}),
+            ...(receivedShadows ? { receivedShadows: receivedShadows.map(encodePixelBuffer) } : {})
+          }
+        : {}),
+      ...(linear ? { linear } : {}),
+      ...(frame ? { region: frame.region } : {})
     };
   }
 
+  /**
+   * Log the lights being rendered
+   */
+  private logLights(lights: LightSource[]): void {
+    for (const light of lights) {
+      console.log(light.type === 'point'
+        ? `   Point light: (${light.x}, ${light.y}) at height ${light.height}px, intensity ${light.intensity ?? 1}${light.spot ? ', spot' : ''}`
+        : `   Light: ${light.angle}° angle, ${light.elevation}° elevation, intensity ${light.intensity ?? 1}`);
+    }
+  }
+
+  /**
+   * Move the contact line down to the floor under a raised subject
+   */
+  private lowerContactLine(contactLine: ContactLine, offset: number, height: number): ContactLine {
+    const lower = (point: { x: number; y: number }) => ({
+      x: point.x,
+      y: Math.min(height - 1, Math.round(point.y + offset))
+    });
+
+    return {
+      points: contactLine.points.map(lower),
+      ...(contactLine.segments
+        ? { segments: contactLine.segments.map((segment) => ({ points: segment.points.map(lower) })) }
+        : {})
+    };
+  }
+
+  /**
+   * Light-independent stages of castShadows() for the shadow region
+   *
+   * They are computed on the whole image and kept in the session, then
+   * cropped: the region moves with the lights (elevation, point light
+   * position), the full-size results do not. Every contact point lies
+   * inside the region, so the crops match computing on the crop.
+   */
+  private getCachedStages(
+    session: ShadowSession,
+    foreground: PixelBuffer,
+    shadowRegion: ShadowRegion,
+    region: ImageRegion,
+    config: ShadowConfig,
+    shadowColor: RGBColor
+  ): CachedStages {
+    const { width, height } = foreground;
+    const { contactLine } = shadowRegion;
+    const crop = <T extends Uint8Array | Float32Array>(plane: T) =>
+      cropPlane(plane, width, region.x, region.y, region.width, region.height);
+
+    const coverage = session.memo('coverage', [foreground], () =>
+      this.silhouetteExtractor.extractCoverage(foreground)
+    );
+
+    let distanceMap: DistanceMap | undefined;
+    if (config.distanceMode !== 'lightDirection') {
+      const full = session.memo('distanceMap', [contactLine, width, height], () =>
+        this.distanceTransform.compute(contactLine, width, height)
+      );
+      distanceMap = { data: crop(full.data), width: region.width, height: region.height };
+    }
+
+    const contactShadow = config.contactShadow;
+    const contactLayer = contactShadow
+      ? session.memo(
+          'contactLayer',
+          [contactLine, coverage, JSON.stringify(contactShadow), JSON.stringify(shadowColor)],
+          () => this.createContactLayer(contactShadow, contactLine, coverage, width, height, shadowColor)
+        )
+      : null;
+
+    return {
+      silhouette: crop(shadowRegion.silhouette),
+      coverage: crop(coverage),
+      distanceMap,
+      contactLayer: contactLayer && cropFloatPixelBuffer(contactLayer, region.x, region.y, region.width, region.height)
+    };
+  }
+
+  /**
+   * Frame for running castShadows() on a crop of the image
+   */
+  private getTileFrame(
+    crop: ImageRegion,
+    contactLine: ContactLine,
+    width: number,
+    height: number
+  ): TileFrame {
+    return {
+      x: crop.x,
+      y: crop.y,
+      width,
+      height,
+      contactLine: this.translateContactLine(contactLine, -crop.x, -crop.y)
+    };
+  }
+
+  /**
+   * The depth map if it matches the image size; otherwise it is ignored
+   * (shadows fall on a flat floor) with a warning
+   */
+  private checkDepthMap(depthMap: PixelBuffer | undefined, width: number, height: number): PixelBuffer | undefined {
+    if (!depthMap || (depthMap.width === width && depthMap.height === height)) return depthMap;
+
+    console.warn(
+      `⚠️  Depth map is ${depthMap.width}x${depthMap.height}, the image ${width}x${height}; casting on a flat floor`
+    );
+    return undefined;
+  }
+
+  /**
+   * Contact line from manually drawn polylines, or null when none of
+   * their pixels lie inside the image (automatic detection is used then:
+   * an empty contact line would cast a flat, unblurred shadow)
+   */
+  private manualContactLine(
+    polylines: Array<Array<{ x: number; y: number }>>,
+    width: number,
+    height: number
+  ): ContactLine | null {
+    const contactLine = this.contactDetector.fromPolylines(polylines, width, height);
+    if (contactLine.points.length > 0) return contactLine;
+
+    console.warn('⚠️  Manual contact line has no points inside the image; detecting contact automatically');
+    return null;
+  }
+
+  /**
+   * Move the contact line by (dx, dy), e.g. into a tile's crop
+   */
+  private translateContactLine(contactLine: ContactLine, dx: number, dy: number): ContactLine {
+    const move = (point: { x: number; y: number }) => ({ x: point.x + dx, y: point.y + dy });
+
+    return {
+      points: contactLine.points.map(move),
+      ...(contactLine.segments
+        ? { segments: contactLine.segments.map((segment) => ({ points: segment.points.map(move) })) }
+        : {})
+    };
+  }
+
+  /**
+   * Move a light's image position by (dx, dy), e.g. into a tile's crop
+   * (point lights and their spot target; directional lights have none)
+   */
+  private translateLight(light: LightSource, dx: number, dy: number): LightSource {
+    if (light.type !== 'point') return light;
+
+    return {
+      ...light,
+      x: light.x + dx,
+      y: light.y + dy,
+      ...(light.spot
+        ? { spot: { ...light.spot, targetX: light.spot.targetX + dx, targetY: light.spot.targetY + dy } }
+        : {})
+    };
+  }
+
+  /**
+   * Image direction a directional light's shadow extends in
+   * (on a perspective floor: as seen at the center of the contact line)
+   */
+  private getShadowDirection(
+    lightVector: LightVector,
+    contactLine: ContactLine,
+    groundPlane: GroundPlane | null
+  ): { x: number; y: number } | undefined {
+    const flat = this.lightCalculator.getShadowDirection(lightVector);
+    if (!groundPlane || !flat || contactLine.points.length === 0) return flat;
+
+    const center = centroid(contactLine.points);
+    return groundPlane.imageDirectionAt(center.x, center.y, flat.x, flat.y) ?? flat;
+  }
+
+  /**
+   * Lights to render: config.lights, or the single light described by
+   * lightAngle/lightElevation/lightSize
+   *
+   * @param config - Shadow configuration
+   * @returns At least one light
+   */
+  private resolveLights(config: ShadowConfig): LightSource[] {
+    if (config.lights && config.lights.length > 0) {
+      return config.lights;
+    }
+
+    return [{
+      angle: config.lightAngle,
+      elevation: config.lightElevation,
+      intensity: 1,
+      lightSize: config.lightSize
+    }];
+  }
+
+  /**
+   * Decode a region of an image to linear light
+   * (with a session the whole image is decoded once and cropped)
+   *
+   * @param image - Image at the background's size
+   * @param region - Region to decode
+   * @param stage - Cache stage name for the decoded image
+   * @param session - Optional cache
+   */
+  private decodeRegion(
+    image: PixelBuffer,
+    region: ImageRegion,
+    stage: string,
+    session?: ShadowSession
+  ): FloatPixelBuffer {
+    if (!session) {
+      return decodePixelBuffer(cropPixelBuffer(image, region.x, region.y, region.width, region.height));
+    }
+
+    const decoded = session.memo(stage, [image], () => decodePixelBuffer(image));
+    return cropFloatPixelBuffer(decoded, region.x, region.y, region.width, region.height);
+  }
+
+  /**
+   * Contact shadow layer: occlusion around the footprint, removed under
+   * the subject
+   *
+   * @returns Layer, or null when its opacity is 0
+   */
+  private createContactLayer(
+    contactShadow: ContactShadowConfig,
+    contactLine: ContactLine,
+    coverage: Float32Array,
+    width: number,
+    height: number,
+    color: RGBColor
+  ): FloatPixelBuffer | null {
+    const opacity = contactShadow.opacity ?? 0.6;
+    const radius = contactShadow.radius ?? 12;
+    if (opacity <= 0) return null;
+
+    console.log(`   Contact shadow: radius ${radius}px, opacity ${opacity}`);
+    const occlusion = this.shadowProjector.removeOcclusions(
+      this.contactOcclusion.compute(contactLine, width, height, radius, contactShadow.flatten ?? 0.3),
+      coverage,
+      width,
+      height
+    );
+
+    return this.compositor.createOcclusionLayer(occlusion, opacity, width, height, color);
+  }
+
+  /**
+   * Shadow color to multiply into the background: config.shadowColor, or
+   * for 'auto' the ambient color (given or estimated) as a shadow tint
+   *
+   * @param config - Shadow configuration
+   * @param background - Background image (ambient color estimation)
+   * @returns Shadow color (black by default)
+   */
+  private resolveShadowColor(config: ShadowConfig, background: PixelBuffer): RGBColor {
+    if (config.shadowColor === undefined) return { r: 0, g: 0, b: 0 };
+    if (config.shadowColor !== 'auto') return config.shadowColor;
+
+    const ambient = config.ambientColor ?? this.lightEstimator.estimateAmbientColor(background);
+    const color = this.compositor.getAmbientShadowColor(ambient);
+    console.log(`   Ambient light: rgb(${ambient.r}, ${ambient.g}, ${ambient.b}) → shadow color rgb(${color.r}, ${color.g}, ${color.b})`);
+    return color;
+  }
+
+  /**
+   * Suggest a light direction matching the background's lighting
+   * (pass the result to getDefaultConfig)
+   *
+   * @param background - Background image
+   * @returns Suggested angle, elevation and confidence
+   */
+  estimateLight(background: PixelBuffer): LightEstimate {
+    const estimate = this.lightEstimator.estimate(background);
+    console.log(`💡 Estimated light: ${estimate.angle.toFixed(0)}° angle, ${estimate.elevation.toFixed(0)}° elevation (confidence ${estimate.confidence.toFixed(2)})`);
+    return estimate;
+  }
+
   /**
    * Get default shadow configuration
    * (useful starting point for users)
    *
-   * @param lightAngle - Light direction angle (0-360)
-   * @param lightElevation - Light elevation angle (0-90)
+   * @param lightAngle - Light direction angle (0-360), or a light estimate
+   *                     (used when its confidence is at least LightEstimator.MIN_CONFIDENCE)
+   * @param lightElevation - Light elevation angle (0-90, ignored with an estimate)
    * @returns Default ShadowConfig
    */
   getDefaultConfig(
-    lightAngle: number = 135,
+    lightAngle: number | LightEstimate = 135,
     lightElevation: number = 45
   ): ShadowConfig {
+    if (typeof lightAngle !== 'number') {
+      const estimate = lightAngle;
+      if (estimate.confidence >= LightEstimator.MIN_CONFIDENCE) {
+        lightAngle = estimate.angle;
+        lightElevation = estimate.elevation;
+      } else {
+        console.warn(`⚠️  Light estimate confidence ${estimate.confidence.toFixed(2)} is too low; using the default light`);
+        lightAngle = 135;
+      }
+    }
+
     // Get suggested parameters based on elevation
     const suggested = this.lightCalculator.getSuggestedShadowParams(lightElevation);
 
@@ -209,23 +1673,36 @@ export class ShadowGenerator {
     const bgWidth = images.background.width;
     const bgHeight = images.background.height;
 
-    // Warn if dimensions don't match (will be handled by caller)
-    if (fgWidth !== bgWidth || fgHeight !== bgHeight) {
+    // Warn if dimensions don't match (will be handled by caller);
+    // a placed foreground may have any size
+    if (!images.foregroundTransform && (fgWidth !== bgWidth || fgHeight !== bgHeight)) {
       console.warn(
         `⚠️  Image dimension mismatch: foreground ${fgWidth}x${fgHeight}, background ${bgWidth}x${bgHeight}`
       );
     }
 
-    // Check depth map if provided
+    // Check depth map if provided (it belongs to the background)
     if (images.depthMap) {
       const dmWidth = images.depthMap.width;
       const dmHeight = images.depthMap.height;
 
-      if (dmWidth !== fgWidth || dmHeight !== fgHeight) {
+      if (dmWidth !== bgWidth || dmHeight !== bgHeight) {
         console.warn(
-          `⚠️  Depth map dimension mismatch: ${dmWidth}x${dmHeight}, expected ${fgWidth}x${fgHeight}`
+          `⚠️  Depth map dimension mismatch: ${dmWidth}x${dmHeight}, expected ${bgWidth}x${bgHeight}`
         );
       }
     }
   }
 }
+
+/**
+ * ShadowSession.memo with a session, a plain computation without one
+ */
+function memo<T>(
+  session: ShadowSession | undefined,
+  stage: string,
+  inputs: unknown[],
+  compute: () => T
+): T {
+  return session ? session.memo(stage, inputs, compute) : compute();
+}
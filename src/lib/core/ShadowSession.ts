@@ -0,0 +1,74 @@
+/**
+ * Cache for re-rendering the same inputs under changing lights
+ */
+
+/**
+ * One cached stage result and what it was computed from
+ */
+interface CacheEntry {
+  inputs: unknown[];
+  value: unknown;
+}
+
+/**
+ * ShadowSession - Keeps light-independent pipeline results between
+ * generate() calls (GenerateOptions.session)
+ *
+ * While only the lights change (angle, elevation, light size, point
+ * light position, ...), a session lets generate() skip everything that
+ * does not depend on them:
+ * - Placed foreground, silhouette, coverage and contact line
+ * - Working-resolution copies of the inputs
+ * - Background and foreground decoded to linear light, shadow color
+ * - The distance map (unless distanceMode is 'lightDirection') and the
+ *   contact shadow (ambient occlusion) layer
+ *
+ * These are kept for the whole image and cropped to the shadow region on
+ * each call, so they survive region changes (elevation, point light
+ * position). Projection, falloff, blur, compositing and the depth map
+ * surface run on every call.
+ *
+ * Results are keyed by input identity: images must be the same objects
+ * as in the previous call (and not modified in place) to be reused;
+ * configuration values are compared by value. Each stage keeps only its
+ * latest result. The cache holds full-size copies of the inputs,
+ * including float ones; clear() releases them.
+ *
+ * Used by generate() only (not by generateScene() or tiled generation,
+ * apart from finding the subject).
+ */
+export class ShadowSession {
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * Result of a pipeline stage, computed again only when its inputs changed
+   *
+   * @param stage - Stage name (one cached result per stage)
+   * @param inputs - Everything the result depends on, compared with ===
+   *                 (images and cached results by identity, other
+   *                 objects as JSON strings)
+   * @param compute - Computes the result on a miss
+   * @returns Cached or freshly computed result
+   */
+  memo<T>(stage: string, inputs: unknown[], compute: () => T): T {
+    const entry = this.entries.get(stage);
+    if (
+      entry &&
+      entry.inputs.length === inputs.length &&
+      entry.inputs.every((input, i) => input === inputs[i])
+    ) {
+      return entry.value as T;
+    }
+
+    const value = compute();
+    this.entries.set(stage, { inputs, value });
+    return value;
+  }
+
+  /**
+   * Drop every cached result
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Typings for onnxruntime-web
+ *
+ * The package ships its typings as an ambient module outside its
+ * "exports" map, so module resolution does not find them. They only
+ * re-export onnxruntime-common, which resolves normally.
+ */
+
+declare module 'onnxruntime-web' {
+  export * from 'onnxruntime-common';
+}
@@ -2,6 +2,45 @@
  * Core type definitions for the Realistic Shadow Generator
  */
 
+import type { ShadowSession } from './ShadowSession';
+
+/**
+ * Platform-neutral RGBA pixel buffer
+ *
+ * Layout matches DOM ImageData ([R, G, B, A, R, G, B, A, ...], row-major),
+ * so an ImageData can be passed anywhere a PixelBuffer is expected.
+ * Use toImageData() to hand results back to a canvas.
+ */
+export interface PixelBuffer {
+  /** Width in pixels */
+  width: number;
+
+  /** Height in pixels */
+  height: number;
+
+  /** RGBA bytes, length = width * height * 4 */
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Linear-light float RGBA buffer with premultiplied alpha (0-1 per channel)
+ *
+ * The pipeline's working format: falloff, blur and blending happen on
+ * these and only the outputs are encoded to 8-bit sRGB, so repeated
+ * operations neither band nor shift colors. Convert with
+ * decodePixelBuffer() / encodePixelBuffer().
+ */
+export interface FloatPixelBuffer {
+  /** Width in pixels */
+  width: number;
+
+  /** Height in pixels */
+  height: number;
+
+  /** Premultiplied linear RGBA, length = width * height * 4 */
+  data: Float32Array;
+}
+
 /**
  * Configuration for shadow generation
  */
@@ -21,11 +60,301 @@ export interface ShadowConfig {
   /** Rate at which shadow fades with distance (higher = faster fadeout) */
   falloffRate: number;
 
-  /** Minimum blur radius at contact line (pixels) */
+  /** Minimum blur radius at contact line (pixels, ignored when lightSize is set) */
   minBlurRadius: number;
 
-  /** Maximum blur radius at max distance (pixels) */
+  /** Maximum blur radius at max distance (pixels, ignored when lightSize is set) */
   maxBlurRadius: number;
+
+  /**
+   * Angular diameter of the light in degrees (sun ≈ 0.5, softbox ≈ 20)
+   * When set, the penumbra width at each shadow pixel is derived from
+   * its occluder-to-receiver distance instead of minBlurRadius/maxBlurRadius
+   */
+  lightSize?: number;
+
+  /**
+   * How distance from the contact line is measured for falloff and blur
+   * - 'euclidean': straight-line distance to the nearest contact point
+   * - 'lightDirection': distance along the projected shadow direction
+   * Default: 'euclidean'
+   */
+  distanceMode?: DistanceMode;
+
+  /**
+   * Several lights (e.g. key + fill), each casting its own shadow
+   * When set, replaces lightAngle/lightElevation/lightSize
+   */
+  lights?: LightSource[];
+
+  /** Also return each light's shadow layer (ShadowResult.lightLayers) */
+  includeLightLayers?: boolean;
+
+  /**
+   * Floor the subject stands on, as seen by the camera
+   * When set, shadows are cast on this plane in 3D and foreshorten toward
+   * the horizon; otherwise they are projected flat in image space
+   */
+  groundPlane?: GroundPlaneConfig;
+
+  /**
+   * Height in pixels between the nearest and farthest depth map value
+   * The depth map (ImageSet.depthMap) is read as the surface shadows land
+   * on: nearer is higher, relative to the floor under the contact line.
+   * Shadows bend over steps, climb walls and are cut off by raised objects.
+   * Default: 100
+   */
+  depthScale?: number;
+
+  /** Which end of the depth map's grayscale range is near (default 'black': 0 = near) */
+  depthNear?: DepthNear;
+
+  /**
+   * Shadow color, multiplied into the background under the shadow
+   * - RGB: fixed color (default black, a plain darkening)
+   * - 'auto': tinted by the scene's ambient light (ambientColor, or
+   *   estimated from the background), so shadows on a warm sunset scene
+   *   come out cool instead of grey
+   */
+  shadowColor?: RGBColor | 'auto';
+
+  /**
+   * Ambient (sky / bounce) light color for shadowColor 'auto'
+   * Default: estimated from the background
+   */
+  ambientColor?: RGBColor;
+
+  /**
+   * How the shadow layer is blended into the background (in linear light)
+   * Default: 'multiply'
+   */
+  blendMode?: BlendMode;
+
+  /**
+   * Contact shadow (ambient occlusion) right under the subject,
+   * independent of the lights and combined with their cast shadows
+   * Omit to render cast shadows only
+   */
+  contactShadow?: ContactShadowConfig;
+
+  /**
+   * Height of the band above each shape's lowest pixel whose column
+   * bottoms count as touching the ground (pixels)
+   * Default: 5% of the shape's height, at least 3
+   */
+  contactTolerance?: number;
+
+  /**
+   * Manually drawn contact line: one polyline (image pixels) per contact
+   * segment. Replaces contact detection, e.g. for hovering subjects or
+   * contacts hidden behind other objects. Detection still runs when no
+   * polyline pixel lies inside the image
+   */
+  manualContact?: Array<Array<{ x: number; y: number }>>;
+
+  /**
+   * Also return the linear float buffers behind the outputs
+   * (ShadowResult.linear), e.g. to composite again or save 16-bit PNGs
+   * without 8-bit banding
+   */
+  keepFloatBuffers?: boolean;
+
+  /**
+   * Compute the shadow at a reduced size (much faster on large photos),
+   * e.g. for interactive preview. Pixel-valued settings (distances, blur
+   * radii, light and floor positions, manual contact) stay in input
+   * pixels and are scaled along. Omit to work at the input size.
+   * Used by generate(); generateScene() always works at the input size
+   */
+  workingResolution?: WorkingResolution;
+
+  /**
+   * Process the shadow region in overlapping tiles so very large images
+   * stay within a memory budget. Only the area a shadow can reach is
+   * processed. Used by generate() at the input size (ignored with a
+   * scaled-down workingResolution); keepFloatBuffers is not supported
+   */
+  tiling?: TilingConfig;
+
+  /**
+   * Return shadowOnly, lightLayers and contactLayer (and their linear
+   * versions) cropped to ShadowResult.region instead of at the image
+   * size; composite and maskDebug stay full size. Used by generate()
+   */
+  cropLayers?: boolean;
+}
+
+/**
+ * Reduced working resolution (ShadowConfig.workingResolution)
+ */
+export interface WorkingResolution {
+  /** Longest side of the working images (pixels); smaller inputs are not scaled */
+  maxDimension: number;
+
+  /**
+   * Size of the outputs
+   * - 'full': upsample the shadow to the input size (edge-aware, guided
+   *   by the full-size foreground alpha) and composite at the input size
+   * - 'working': keep every output at the working size (fastest)
+   * Default: 'full'
+   */
+  output?: 'full' | 'working';
+}
+
+/**
+ * Tiled processing (ShadowConfig.tiling)
+ */
+export interface TilingConfig {
+  /**
+   * Memory for the working buffers of one tile (MB). Tiles shrink until
+   * they fit, down to a minimum size; the input images and the 8-bit
+   * outputs come on top
+   */
+  memoryBudget: number;
+
+  /** Largest tile side (pixels, default: as large as the budget allows) */
+  maxTileSize?: number;
+}
+
+/**
+ * Tight, light-independent darkening where the subject touches the ground
+ */
+export interface ContactShadowConfig {
+  /** Opacity at the contact points (0-1, default 0.6; 0 disables) */
+  opacity?: number;
+
+  /** Reach from the contact points along the ground (pixels, default 12) */
+  radius?: number;
+
+  /** Height / width of the occlusion ellipse (0-1, default 0.3: the ground seen at an angle) */
+  flatten?: number;
+}
+
+/**
+ * 8-bit RGB color (0-255 per channel)
+ */
+export interface RGBColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Description of the floor plane in the background photo
+ * - horizonY: image row of the horizon (camera without roll)
+ * - cameraTilt: downward camera tilt in degrees (horizon derived from it)
+ * - floorPoints: four image points of a rectangle lying on the floor,
+ *   ordered far-left, far-right, near-right, near-left (e.g. a tile or rug)
+ */
+export type GroundPlaneConfig =
+  | {
+      /** Image row of the horizon (may be above the image, i.e. negative) */
+      horizonY: number;
+
+      /** Focal length in pixels (default: the larger image dimension) */
+      focalLength?: number;
+    }
+  | {
+      /** Downward camera tilt in degrees (0 = level camera, horizon at image center) */
+      cameraTilt: number;
+
+      /** Focal length in pixels (default: the larger image dimension) */
+      focalLength?: number;
+    }
+  | {
+      /** Corners of a floor rectangle: far-left, far-right, near-right, near-left */
+      floorPoints: Array<{ x: number; y: number }>;
+
+      /** Real width / depth ratio of that rectangle (default 1, a square) */
+      floorAspect?: number;
+    };
+
+/**
+ * Distance measure used for opacity falloff and blur
+ */
+export type DistanceMode = 'euclidean' | 'lightDirection';
+
+/**
+ * Blend mode for the shadow layer
+ * - 'normal': paint the shadow color over the background
+ * - 'multiply': darken by the shadow color, keeping background texture
+ * - 'linearBurn': darker than multiply, dark areas crush to black
+ * - 'softLight': gentle darkening that keeps highlights and contrast
+ */
+export type BlendMode = 'normal' | 'multiply' | 'linearBurn' | 'softLight';
+
+/**
+ * Depth map convention: the grayscale value that is nearest to the camera
+ */
+export type DepthNear = 'black' | 'white';
+
+/**
+ * One light in a multi-light setup
+ */
+export type LightSource = DirectionalLight | PointLight;
+
+/**
+ * Infinitely distant light: all shadow rays are parallel
+ */
+export interface DirectionalLight {
+  type?: 'directional';
+
+  /** Light direction angle in degrees (0-360) */
+  angle: number;
+
+  /** Light elevation angle in degrees (0-90) */
+  elevation: number;
+
+  /** Strength of this light's shadow (0-1, default 1); a fill light might use 0.3 */
+  intensity?: number;
+
+  /**
+   * Angular diameter in degrees (softness, see ShadowConfig.lightSize)
+   * Omit to use minBlurRadius/maxBlurRadius
+   */
+  lightSize?: number;
+}
+
+/**
+ * Light at a position above the ground (lamp): every silhouette pixel casts
+ * along its own ray, so shadows diverge and grow as the light gets lower
+ */
+export interface PointLight {
+  type: 'point';
+
+  /** Position of the point on the ground directly below the light (image pixels) */
+  x: number;
+  y: number;
+
+  /** Height of the light above the ground (pixels, same scale as the image) */
+  height: number;
+
+  /** Strength of this light's shadow (0-1, default 1) */
+  intensity?: number;
+
+  /**
+   * Angular diameter in degrees as seen from the subject (softness)
+   * Omit to use minBlurRadius/maxBlurRadius
+   */
+  lightSize?: number;
+
+  /** Restrict the light to a cone (spotlight) */
+  spot?: SpotCone;
+}
+
+/**
+ * Spotlight cone: shadows fade out where the light does not reach
+ */
+export interface SpotCone {
+  /** Ground point the spot is aimed at (image pixels) */
+  targetX: number;
+  targetY: number;
+
+  /** Half-angle of the cone in degrees */
+  coneAngle: number;
+
+  /** Fraction of the cone (0-1) over which light fades out toward the edge (default 0.2) */
+  penumbra?: number;
 }
 
 /**
@@ -33,13 +362,88 @@ export interface ShadowConfig {
  */
 export interface ImageSet {
   /** Foreground image with alpha channel (cutout subject) */
-  foreground: ImageData;
+  foreground: PixelBuffer;
 
   /** Background image */
-  background: ImageData;
+  background: PixelBuffer;
 
-  /** Optional grayscale depth map (0=near, 255=far) */
-  depthMap?: ImageData;
+  /**
+   * Optional grayscale depth map of the background, the surface shadows
+   * land on (0=near, 255=far unless ShadowConfig.depthNear is 'white')
+   */
+  depthMap?: PixelBuffer;
+
+  /**
+   * Where the foreground goes on the background
+   * With a transform the shadow is computed in background space: outputs
+   * have the background's size, and ShadowConfig coordinates (lights,
+   * floor, manual contact) are background pixels. Without one the
+   * foreground must already have the background's size.
+   */
+  foregroundTransform?: ForegroundTransform;
+}
+
+/**
+ * Several cutouts on one background (ShadowGenerator.generateScene)
+ */
+export interface Scene {
+  /** Background image; outputs have its size */
+  background: PixelBuffer;
+
+  /** Optional depth map of the background (see ImageSet.depthMap) */
+  depthMap?: PixelBuffer;
+
+  /**
+   * Subjects from back to front: later subjects are drawn over earlier
+   * ones. Each casts its own shadow onto the floor and onto the subjects
+   * standing further from the light
+   */
+  subjects: SceneSubject[];
+}
+
+/**
+ * One cutout in a Scene
+ */
+export interface SceneSubject {
+  /** Cutout with alpha */
+  image: PixelBuffer;
+
+  /** Placement on the background (default: the image already has the background's size) */
+  transform?: ForegroundTransform;
+
+  /**
+   * Height of the subject's base above the floor point below it (pixels,
+   * default 0), e.g. a ball in the air; its shadow detaches and moves away
+   * from the light
+   */
+  heightOffset?: number;
+
+  /** Manually drawn contact line (background pixels), like ShadowConfig.manualContact */
+  manualContact?: Array<Array<{ x: number; y: number }>>;
+}
+
+/**
+ * Placement of the foreground on the background
+ * Scale, rotation and flips apply around the foreground's center
+ */
+export interface ForegroundTransform {
+  /** Background x of the foreground's center (pixels) */
+  x: number;
+
+  /** Background y of the foreground's center (pixels) */
+  y: number;
+
+  /** Size factor (default 1: one foreground pixel per background pixel) */
+  scale?: number;
+
+  /** Clockwise rotation in degrees (default 0) */
+  rotation?: number;
+
+  /** Mirror left-right before rotating */
+  flipX?: boolean;
+
+  /** Mirror top-bottom before rotating */
+  flipY?: boolean;
 }
 
 /**
@@ -56,26 +460,105 @@ export interface LightVector {
   dz: number;
 }
 
+/**
+ * Light direction suggested by analyzing a background image
+ */
+export interface LightEstimate {
+  /** Light direction angle in degrees (0-360) */
+  angle: number;
+
+  /** Light elevation angle in degrees (0-90) */
+  elevation: number;
+
+  /** How much the image cues agree (0 = no usable cue, 1 = strong and consistent) */
+  confidence: number;
+}
+
 /**
  * Result of shadow generation containing all outputs
  */
 export interface ShadowResult {
-  /** Transparent PNG with shadow only */
-  shadowOnly: ImageData;
+  /**
+   * Transparent PNG with shadow only
+   * Meant to be blended with ShadowConfig.blendMode (by default a
+   * Multiply layer in image editors)
+   */
+  shadowOnly: PixelBuffer;
 
   /** Binary silhouette mask for debugging */
-  maskDebug: ImageData;
+  maskDebug: PixelBuffer;
 
   /** Final composite image (background + shadow + foreground) */
-  composite: ImageData;
+  composite: PixelBuffer;
+
+  /** One shadow layer per light, in light order (only with includeLightLayers) */
+  lightLayers?: PixelBuffer[];
+
+  /** Contact shadow layer (only with includeLightLayers and contactShadow) */
+  contactLayer?: PixelBuffer;
+
+  /**
+   * Shadow each scene subject catches from the others, in subject order
+   * (only from generateScene, with includeLightLayers); drawn over the
+   * subject with ShadowConfig.blendMode
+   */
+  receivedShadows?: PixelBuffer[];
+
+  /** The same outputs before 8-bit encoding (only with keepFloatBuffers) */
+  linear?: LinearShadowResult;
+
+  /**
+   * Part of the image a shadow can reach (only from generate()); outside
+   * it the layers are transparent and the composite is the background.
+   * With cropLayers the layers cover just this region
+   */
+  region?: ImageRegion;
 }
 
 /**
- * Contact line representing the lowest visible pixels of the silhouette
+ * Rectangle in image pixels
+ */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Float (linear light, premultiplied) versions of the ShadowResult images
+ */
+export interface LinearShadowResult {
+  shadowOnly: FloatPixelBuffer;
+  composite: FloatPixelBuffer;
+
+  /** Only with includeLightLayers */
+  lightLayers?: FloatPixelBuffer[];
+
+  /** Only with includeLightLayers and contactShadow */
+  contactLayer?: FloatPixelBuffer;
+
+  /** Only from generateScene, with includeLightLayers */
+  receivedShadows?: FloatPixelBuffer[];
+}
+
+/**
+ * Contact line: where the silhouette rests on the ground
  */
 export interface ContactLine {
   /** Array of contact points at the base of the silhouette */
   points: Array<{ x: number; y: number }>;
+
+  /** The same points split into separate contacts (legs, feet, bases) */
+  segments?: ContactSegment[];
+}
+
+/**
+ * One continuous stretch of ground contact
+ */
+export interface ContactSegment {
+  /** Contact points, left to right */
+  points: Array<{ x: number; y: number }>;
 }
 
 /**
@@ -91,3 +574,34 @@ export interface DistanceMap {
   /** Height of the distance map */
   height: number;
 }
+
+/**
+ * Progress update emitted while the pipeline runs
+ */
+export interface ShadowProgress {
+  /** Current pipeline step (1-based) */
+  step: number;
+
+  /** Total number of pipeline steps */
+  totalSteps: number;
+
+  /** Human-readable step description */
+  label: string;
+
+  /** Completion of the current step (0-1) */
+  stepProgress: number;
+}
+
+/**
+ * Optional hooks for a single generate() call
+ */
+export interface GenerateOptions {
+  /** Called at the start of each pipeline step and periodically within long steps */
+  onProgress?: (progress: ShadowProgress) => void;
+
+  /**
+   * Reuse light-independent results of earlier calls with the same
+   * inputs (generate() only; see ShadowSession)
+   */
+  session?: ShadowSession;
+}
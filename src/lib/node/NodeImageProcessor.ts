@@ -0,0 +1,128 @@
+/**
+ * Headless image loading and saving for Node.js
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { PNG } from 'pngjs';
+import type { FloatPixelBuffer, PixelBuffer } from '../core/types';
+import { resizePixelBuffer } from '../utils/imageData';
+import { linearToSrgb } from '../utils/color';
+
+/**
+ * NodeImageProcessor - Node.js counterpart of ImageProcessor
+ *
+ * Handles:
+ * - Decoding PNG files/buffers to PixelBuffer
+ * - Encoding PixelBuffer to PNG (FloatPixelBuffer to 16-bit PNG)
+ * - Optional downscaling (same maxDimension rule as the browser loader)
+ *
+ * No DOM, canvas or native modules required
+ */
+export class NodeImageProcessor {
+  /**
+   * Load a PNG file from disk
+   *
+   * @param path - File path
+   * @param maxDimension - Downscale so neither side exceeds this (omit to keep size)
+   * @returns Promise resolving to PixelBuffer
+   */
+  async loadFromFile(path: string, maxDimension?: number): Promise<PixelBuffer> {
+    const buffer = await readFile(path);
+    const image = this.decodePng(buffer);
+
+    if (maxDimension === undefined) {
+      return image;
+    }
+
+    return this.downscale(image, maxDimension);
+  }
+
+  /**
+   * Write a pixel buffer to disk as PNG
+   * (8-bit for a PixelBuffer, 16-bit for a linear FloatPixelBuffer)
+   *
+   * @param path - Output file path
+   * @param image - Pixel buffer to encode
+   */
+  async saveToFile(path: string, image: PixelBuffer | FloatPixelBuffer): Promise<void> {
+    const bytes = image.data instanceof Float32Array
+      ? this.encodePng16(image as FloatPixelBuffer)
+      : this.encodePng(image as PixelBuffer);
+    await writeFile(path, bytes);
+  }
+
+  /**
+   * Decode PNG bytes to an RGBA pixel buffer
+   * (palette, grayscale and 16-bit PNGs are expanded to 8-bit RGBA)
+   *
+   * @param bytes - PNG file contents
+   * @returns Decoded PixelBuffer
+   */
+  decodePng(bytes: Uint8Array): PixelBuffer {
+    const png = PNG.sync.read(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+
+    return {
+      width: png.width,
+      height: png.height,
+      data: new Uint8ClampedArray(png.data.buffer, png.data.byteOffset, png.data.length)
+    };
+  }
+
+  /**
+   * Encode an RGBA pixel buffer as PNG
+   *
+   * @param image - Pixel buffer to encode
+   * @returns PNG file contents
+   */
+  encodePng(image: PixelBuffer): Buffer {
+    const png = new PNG({ width: image.width, height: image.height });
+    png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+    return PNG.sync.write(png);
+  }
+
+  /**
+   * Encode a linear, premultiplied float buffer as a 16-bit sRGB PNG
+   * (straight alpha), keeping the precision an 8-bit PNG would band away
+   *
+   * @param image - Float buffer to encode
+   * @returns PNG file contents
+   */
+  encodePng16(image: FloatPixelBuffer): Buffer {
+    const samples = new Uint16Array(image.width * image.height * 4);
+    const src = image.data;
+
+    for (let p = 0; p < src.length; p += 4) {
+      const a = src[p + 3];
+      if (a <= 0) continue;
+
+      // linearToSrgb returns 0-255; rescale to 0-65535
+      for (let c = 0; c < 3; c++) {
+        samples[p + c] = Math.round((linearToSrgb(src[p + c] / a) / 255) * 65535);
+      }
+      samples[p + 3] = Math.round(Math.min(1, a) * 65535);
+    }
+
+    const png = new PNG({ width: image.width, height: image.height, bitDepth: 16 });
+    png.data = Buffer.from(samples.buffer);
+    return PNG.sync.write(png, { bitDepth: 16 });
+  }
+
+  /**
+   * Downscale so that neither side exceeds maxDimension (keeps aspect ratio)
+   *
+   * @param image - Source pixel buffer
+   * @param maxDimension - Maximum width/height
+   * @returns Original buffer if small enough, otherwise a resized copy
+   */
+  downscale(image: PixelBuffer, maxDimension: number): PixelBuffer {
+    if (image.width <= maxDimension && image.height <= maxDimension) {
+      return image;
+    }
+
+    const ratio = Math.min(maxDimension / image.width, maxDimension / image.height);
+    const width = Math.round(image.width * ratio);
+    const height = Math.round(image.height * ratio);
+
+    return resizePixelBuffer(image, width, height);
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Color space and blend mode utilities
+ */
+
+import type { BlendMode, FloatPixelBuffer, PixelBuffer } from '../core/types';
+import { createFloatPixelBuffer, createPixelBuffer } from './imageData';
+
+/**
+ * sRGB 8-bit value → linear light (0-1), per IEC 61966-2-1
+ */
+export function srgbToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Linear light (0-1) → sRGB 8-bit value (unrounded, 0-255)
+ */
+export function linearToSrgb(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return (v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255;
+}
+
+// Decoding 8-bit values is a lookup
+const SRGB_TO_LINEAR = new Float32Array(256);
+for (let i = 0; i < 256; i++) {
+  SRGB_TO_LINEAR[i] = srgbToLinear(i);
+}
+
+/**
+ * Separable blend function B(backdrop, source) of a blend mode
+ * (W3C Compositing and Blending, channels 0-1)
+ */
+export function blendChannel(mode: BlendMode, backdrop: number, source: number): number {
+  switch (mode) {
+    case 'normal':
+      return source;
+
+    case 'multiply':
+      return backdrop * source;
+
+    case 'linearBurn':
+      // backdrop + source - 1: darker than multiply, crushes to black at full strength
+      return Math.max(0, backdrop + source - 1);
+
+    case 'softLight': {
+      if (source <= 0.5) {
+        return backdrop - (1 - 2 * source) * backdrop * (1 - backdrop);
+      }
+      const d = backdrop <= 0.25
+        ? ((16 * backdrop - 12) * backdrop + 4) * backdrop
+        : Math.sqrt(backdrop);
+      return backdrop + (2 * source - 1) * (d - backdrop);
+    }
+  }
+}
+
+/**
+ * Decode an 8-bit sRGB buffer (straight alpha) to linear light with
+ * premultiplied alpha
+ */
+export function decodePixelBuffer(image: PixelBuffer): FloatPixelBuffer {
+  const result = createFloatPixelBuffer(image.width, image.height);
+  const src = image.data;
+  const dst = result.data;
+
+  for (let p = 0; p < dst.length; p += 4) {
+    const a = src[p + 3] / 255;
+    if (a === 0) continue;
+
+    dst[p] = SRGB_TO_LINEAR[src[p]] * a;
+    dst[p + 1] = SRGB_TO_LINEAR[src[p + 1]] * a;
+    dst[p + 2] = SRGB_TO_LINEAR[src[p + 2]] * a;
+    dst[p + 3] = a;
+  }
+
+  return result;
+}
+
+/**
+ * Encode a linear, premultiplied float buffer as 8-bit sRGB with straight
+ * alpha (fully transparent pixels become (0, 0, 0, 0))
+ */
+export function encodePixelBuffer(image: FloatPixelBuffer): PixelBuffer {
+  const result = createPixelBuffer(image.width, image.height);
+  const src = image.data;
+  const dst = result.data;
+
+  for (let p = 0; p < src.length; p += 4) {
+    const a = src[p + 3];
+    if (a * 255 < 0.5) continue; // Rounds to transparent
+
+    // Uint8ClampedArray rounds (and clamps) on assignment
+    dst[p] = linearToSrgb(src[p] / a);
+    dst[p + 1] = linearToSrgb(src[p + 1] / a);
+    dst[p + 2] = linearToSrgb(src[p + 2] / a);
+    dst[p + 3] = a * 255;
+  }
+
+  return result;
+}
+
+/**
+ * Composite a premultiplied linear source pixel onto a backdrop pixel with
+ * a blend mode (W3C Compositing and Blending, source-over):
+ * - out = src * (1 - dstA) + dst * (1 - srcA) + srcA * dstA * B(dst, src)
+ *   (B on un-premultiplied colors)
+ * - outA = srcA + dstA * (1 - srcA)
+ *
+ * With 'normal' this is plain premultiplied alpha blending
+ *
+ * @param mode - Blend mode
+ * @param dst - Backdrop buffer data, updated in place
+ * @param dstIdx - Index of the backdrop pixel's R
+ * @param src - Source buffer data
+ * @param srcIdx - Index of the source pixel's R
+ */
+export function blendPremultiplied(
+  mode: BlendMode,
+  dst: Float32Array,
+  dstIdx: number,
+  src: Float32Array,
+  srcIdx: number
+): void {
+  const srcA = src[srcIdx + 3];
+  if (srcA === 0) return;
+
+  const dstA = dst[dstIdx + 3];
+
+  for (let c = 0; c < 3; c++) {
+    const s = src[srcIdx + c];
+    const d = dst[dstIdx + c];
+    const mixed = dstA > 0
+      ? srcA * dstA * blendChannel(mode, d / dstA, s / srcA)
+      : 0;
+    dst[dstIdx + c] = s * (1 - dstA) + d * (1 - srcA) + mixed;
+  }
+
+  dst[dstIdx + 3] = srcA + dstA * (1 - srcA);
+}
@@ -0,0 +1,118 @@
+/**
+ * Planar homography utilities (3x3 projective transforms)
+ */
+
+/**
+ * 3x3 matrix in row-major order: [h0 h1 h2; h3 h4 h5; h6 h7 h8]
+ * Maps (x, y) to ((h0x + h1y + h2) / w, (h3x + h4y + h5) / w), w = h6x + h7y + h8
+ */
+export type Homography = [
+  number, number, number,
+  number, number, number,
+  number, number, number
+];
+
+/**
+ * Solve the homography mapping four source points onto four destination points
+ * (direct linear transform with h8 = 1, solved by Gaussian elimination)
+ *
+ * @param from - Four source points (no three collinear)
+ * @param to - Four destination points, in the same order
+ * @returns Homography, or null if the points are degenerate
+ */
+export function solveHomography(
+  from: Array<{ x: number; y: number }>,
+  to: Array<{ x: number; y: number }>
+): Homography | null {
+  if (from.length !== 4 || to.length !== 4) return null;
+
+  // Two equations per point correspondence, 8 unknowns (augmented matrix)
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  const solution = solveLinearSystem(rows);
+  if (!solution) return null;
+
+  return [...solution, 1] as Homography;
+}
+
+/**
+ * Invert a homography
+ *
+ * @returns Inverse, or null if the matrix is singular
+ */
+export function invertHomography(h: Homography): Homography | null {
+  const [a, b, c, d, e, f, g, i, j] = h;
+
+  const c00 = e * j - f * i;
+  const c01 = c * i - b * j;
+  const c02 = b * f - c * e;
+  const det = a * c00 + d * c01 + g * c02;
+
+  if (Math.abs(det) < 1e-12) return null;
+
+  const inv = 1 / det;
+  return [
+    c00 * inv, c01 * inv, c02 * inv,
+    (f * g - d * j) * inv, (a * j - c * g) * inv, (c * d - a * f) * inv,
+    (d * i - e * g) * inv, (b * g - a * i) * inv, (a * e - b * d) * inv
+  ];
+}
+
+/**
+ * Apply a homography to a point
+ *
+ * @returns Mapped point and the projective weight w (w <= 0 means the point
+ *          maps behind the plane's horizon)
+ */
+export function applyHomography(
+  h: Homography,
+  x: number,
+  y: number
+): { x: number; y: number; w: number } {
+  const w = h[6] * x + h[7] * y + h[8];
+  return {
+    x: (h[0] * x + h[1] * y + h[2]) / w,
+    y: (h[3] * x + h[4] * y + h[5]) / w,
+    w
+  };
+}
+
+/**
+ * Gaussian elimination with partial pivoting on an n x (n + 1) augmented matrix
+ */
+function solveLinearSystem(rows: number[][]): number[] | null {
+  const n = rows.length;
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const factor = rows[r][col] / rows[col][col];
+      for (let k = col; k <= n; k++) {
+        rows[r][k] -= factor * rows[col][k];
+      }
+    }
+  }
+
+  const solution = new Array<number>(n);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = rows[r][n];
+    for (let k = r + 1; k < n; k++) {
+      sum -= rows[r][k] * solution[k];
+    }
+    solution[r] = sum / rows[r][r];
+  }
+
+  return solution;
+}
@@ -1,7 +1,294 @@
 /**
- * Utility functions for working with ImageData buffers
+ * Utility functions for working with ImageData / PixelBuffer buffers
  */
 
+import type { FloatPixelBuffer, PixelBuffer } from '../core/types';
+
+/**
+ * Create a blank (transparent black) PixelBuffer
+ * Works without the DOM (Node, workers, tests)
+ */
+export function createPixelBuffer(width: number, height: number): PixelBuffer {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+}
+
+/**
+ * Create a blank (transparent) linear float buffer
+ */
+export function createFloatPixelBuffer(width: number, height: number): FloatPixelBuffer {
+  return { width, height, data: new Float32Array(width * height * 4) };
+}
+
+/**
+ * Clone a PixelBuffer (deep copy of the pixel data)
+ */
+export function clonePixelBuffer(source: PixelBuffer): PixelBuffer {
+  return {
+    width: source.width,
+    height: source.height,
+    data: new Uint8ClampedArray(source.data)
+  };
+}
+
+/**
+ * Copy a rectangle out of a PixelBuffer (must lie inside the source)
+ */
+export function cropPixelBuffer(
+  source: PixelBuffer,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): PixelBuffer {
+  const result = createPixelBuffer(width, height);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * source.width + x) * 4;
+    result.data.set(source.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return result;
+}
+
+/**
+ * Copy a rectangle out of a FloatPixelBuffer (must lie inside the source)
+ */
+export function cropFloatPixelBuffer(
+  source: FloatPixelBuffer,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): FloatPixelBuffer {
+  const result = createFloatPixelBuffer(width, height);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * source.width + x) * 4;
+    result.data.set(source.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return result;
+}
+
+/**
+ * Copy a rectangle out of a single-channel plane (mask, coverage,
+ * distances; must lie inside the plane)
+ */
+export function cropPlane<T extends Uint8Array | Float32Array>(
+  plane: T,
+  planeWidth: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): T {
+  const result = (plane instanceof Float32Array ? new Float32Array(width * height) : new Uint8Array(width * height)) as T;
+  for (let row = 0; row < height; row++) {
+    const start = (y + row) * planeWidth + x;
+    result.set(plane.subarray(start, start + width), row * width);
+  }
+  return result;
+}
+
+/**
+ * Copy a PixelBuffer into a larger one with its top-left corner at (x, y)
+ * (must lie inside the target)
+ */
+export function pastePixelBuffer(target: PixelBuffer, source: PixelBuffer, x: number, y: number): void {
+  for (let row = 0; row < source.height; row++) {
+    const start = row * source.width * 4;
+    target.data.set(
+      source.data.subarray(start, start + source.width * 4),
+      ((y + row) * target.width + x) * 4
+    );
+  }
+}
+
+/**
+ * Copy a FloatPixelBuffer into a larger one with its top-left corner at
+ * (x, y) (must lie inside the target)
+ */
+export function pasteFloatPixelBuffer(
+  target: FloatPixelBuffer,
+  source: FloatPixelBuffer,
+  x: number,
+  y: number
+): void {
+  for (let row = 0; row < source.height; row++) {
+    const start = row * source.width * 4;
+    target.data.set(
+      source.data.subarray(start, start + source.width * 4),
+      ((y + row) * target.width + x) * 4
+    );
+  }
+}
+
+/**
+ * Bilinear sample of a premultiplied float buffer at pixel coordinates
+ * (pixel centers on integers), transparent outside the buffer so edges
+ * fade out instead of being clamped
+ *
+ * @param image - Premultiplied float buffer
+ * @param x - Column (fractional)
+ * @param y - Row (fractional)
+ * @param out - Receives the sampled RGBA (length 4)
+ */
+export function sampleBilinear(image: FloatPixelBuffer, x: number, y: number, out: Float32Array): void {
+  out.fill(0);
+
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  for (let j = 0; j < 2; j++) {
+    const py = y0 + j;
+    if (py < 0 || py >= image.height) continue;
+    const wy = j === 0 ? 1 - fy : fy;
+
+    for (let i = 0; i < 2; i++) {
+      const px = x0 + i;
+      if (px < 0 || px >= image.width) continue;
+      const weight = wy * (i === 0 ? 1 - fx : fx);
+      if (weight === 0) continue;
+
+      const idx = (py * image.width + px) * 4;
+      for (let c = 0; c < 4; c++) {
+        out[c] += image.data[idx + c] * weight;
+      }
+    }
+  }
+}
+
+/**
+ * DOM adapter: wrap a PixelBuffer as ImageData (for putImageData, etc.)
+ * Returns the input unchanged if it already is an ImageData
+ */
+export function toImageData(buffer: PixelBuffer): ImageData {
+  if (typeof ImageData !== 'undefined' && buffer instanceof ImageData) {
+    return buffer;
+  }
+
+  const data = new Uint8ClampedArray(buffer.data.length);
+  data.set(buffer.data);
+  return new ImageData(data, buffer.width, buffer.height);
+}
+
+/**
+ * Resize a PixelBuffer with bilinear interpolation (pure JS, no canvas)
+ *
+ * Downscaling by more than 2x first box-averages the source so that
+ * every source pixel contributes (plain bilinear would skip pixels and alias).
+ * Color is averaged with premultiplied alpha, so transparent pixels do not
+ * darken the edges of a cutout.
+ *
+ * @param source - Source buffer
+ * @param targetWidth - Target width
+ * @param targetHeight - Target height
+ * @returns New resized buffer
+ */
+export function resizePixelBuffer(
+  source: PixelBuffer,
+  targetWidth: number,
+  targetHeight: number
+): PixelBuffer {
+  let src = premultiplyPixelBuffer(source);
+
+  // Halve repeatedly while still more than 2x too large
+  while (src.width >= targetWidth * 2 && src.height >= targetHeight * 2) {
+    src = halvePixelBuffer(src);
+  }
+
+  const result = createPixelBuffer(targetWidth, targetHeight);
+  const scaleX = src.width / targetWidth;
+  const scaleY = src.height / targetHeight;
+  const sample = new Float32Array(4);
+
+  for (let y = 0; y < targetHeight; y++) {
+    // Sample at pixel centers
+    const sy = Math.min(Math.max((y + 0.5) * scaleY - 0.5, 0), src.height - 1);
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(y0 + 1, src.height - 1);
+    const fy = sy - y0;
+
+    for (let x = 0; x < targetWidth; x++) {
+      const sx = Math.min(Math.max((x + 0.5) * scaleX - 0.5, 0), src.width - 1);
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(x0 + 1, src.width - 1);
+      const fx = sx - x0;
+
+      const i00 = (y0 * src.width + x0) * 4;
+      const i10 = (y0 * src.width + x1) * 4;
+      const i01 = (y1 * src.width + x0) * 4;
+      const i11 = (y1 * src.width + x1) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = src.data[i00 + c] * (1 - fx) + src.data[i10 + c] * fx;
+        const bottom = src.data[i01 + c] * (1 - fx) + src.data[i11 + c] * fx;
+        sample[c] = top * (1 - fy) + bottom * fy;
+      }
+
+      const out = (y * targetWidth + x) * 4;
+      const a = sample[3];
+      result.data[out + 3] = Math.round(a * 255);
+      if (result.data[out + 3] === 0) continue;
+
+      result.data[out] = Math.round(sample[0] / a);
+      result.data[out + 1] = Math.round(sample[1] / a);
+      result.data[out + 2] = Math.round(sample[2] / a);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Float RGBA with premultiplied alpha (color 0-255, alpha 0-1), for
+ * resampling 8-bit images without dark fringes
+ */
+export interface PremultipliedPixelBuffer {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/**
+ * Premultiply a PixelBuffer's color by its alpha
+ */
+export function premultiplyPixelBuffer(image: PixelBuffer): PremultipliedPixelBuffer {
+  const data = new Float32Array(image.width * image.height * 4);
+  for (let p = 0; p < data.length; p += 4) {
+    const a = image.data[p + 3] / 255;
+    data[p] = image.data[p] * a;
+    data[p + 1] = image.data[p + 1] * a;
+    data[p + 2] = image.data[p + 2] * a;
+    data[p + 3] = a;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+/**
+ * 2x2 box downsample (an odd last row / column is dropped)
+ */
+export function halvePixelBuffer(image: PremultipliedPixelBuffer): PremultipliedPixelBuffer {
+  const width = Math.floor(image.width / 2);
+  const height = Math.floor(image.height / 2);
+  const data = new Float32Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i00 = ((y * 2) * image.width + x * 2) * 4;
+      const i01 = i00 + image.width * 4;
+      const out = (y * width + x) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        data[out + c] = (
+          image.data[i00 + c] + image.data[i00 + 4 + c] +
+          image.data[i01 + c] + image.data[i01 + 4 + c]
+        ) / 4;
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
 /**
  * Create a blank ImageData of specified dimensions
  */
@@ -30,7 +317,7 @@ export function getPixelIndex(x: number, y: number, width: number): number {
  * Get pixel color at (x, y) from ImageData
  */
 export function getPixel(
-  imageData: ImageData,
+  imageData: PixelBuffer,
   x: number,
   y: number
 ): { r: number; g: number; b: number; a: number } {
@@ -47,7 +334,7 @@ export function getPixel(
  * Set pixel color at (x, y) in ImageData
  */
 export function setPixel(
-  imageData: ImageData,
+  imageData: PixelBuffer,
   x: number,
   y: number,
   r: number,
@@ -66,7 +353,7 @@ export function setPixel(
  * Fill entire ImageData with a color
  */
 export function fillImageData(
-  imageData: ImageData,
+  imageData: PixelBuffer,
   r: number,
   g: number,
   b: number,
@@ -30,6 +30,15 @@ export function lerp(a: number, b: number, t: number): number {
   return a + (b - a) * t;
 }
 
+/**
+ * Smooth Hermite step: 0 at edge0, 1 at edge1, smooth in between
+ */
+export function smoothstep(edge0: number, edge1: number, value: number): number {
+  if (edge0 === edge1) return value < edge0 ? 0 : 1;
+  const t = clamp((value - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+}
+
 /**
  * Normalize a value from [min, max] to [0, 1]
  */
@@ -70,3 +79,18 @@ export function distanceSquared(x1: number, y1: number, x2: number, y2: number):
   const dy = y2 - y1;
   return dx * dx + dy * dy;
 }
+
+/**
+ * Average position of a set of points ({ x: 0, y: 0 } if empty)
+ */
+export function centroid(points: Array<{ x: number; y: number }>): { x: number; y: number } {
+  if (points.length === 0) return { x: 0, y: 0 };
+
+  let sumX = 0;
+  let sumY = 0;
+  for (const point of points) {
+    sumX += point.x;
+    sumY += point.y;
+  }
+  return { x: sumX / points.length, y: sumY / points.length };
+}
@@ -0,0 +1,165 @@
+/**
+ * Utility functions for image regions (bounding boxes, rectangles, tiles)
+ */
+
+import type { ImageRegion, PixelBuffer } from '../core/types';
+
+/**
+ * Bounding box of the pixels with any alpha, or null if all are transparent
+ */
+export function getAlphaBounds(image: PixelBuffer): ImageRegion | null {
+  const { width, height, data } = image;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (data[(row + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      maxY = y;
+    }
+  }
+
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Bounding box of integer points, or null if there are none
+ */
+export function getPointBounds(points: Array<{ x: number; y: number }>): ImageRegion | null {
+  if (points.length === 0) return null;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const point of points) {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  }
+
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Rectangle grown by margin pixels on every side
+ */
+export function expandRect(rect: ImageRegion, margin: number): ImageRegion {
+  return {
+    x: rect.x - margin,
+    y: rect.y - margin,
+    width: rect.width + margin * 2,
+    height: rect.height + margin * 2
+  };
+}
+
+/**
+ * Smallest rectangle containing both (just a when b is null)
+ */
+export function unionRect(a: ImageRegion, b: ImageRegion | null): ImageRegion {
+  if (!b) return a;
+
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  };
+}
+
+/**
+ * Part of a rectangle inside a width x height image
+ */
+export function clipRect(rect: ImageRegion, width: number, height: number): ImageRegion {
+  const x = Math.max(0, rect.x);
+  const y = Math.max(0, rect.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(width, rect.x + rect.width) - x),
+    height: Math.max(0, Math.min(height, rect.y + rect.height) - y)
+  };
+}
+
+/**
+ * Rectangle grown up and to the left so its corner lies on a multiple of
+ * step (a crop starting on even pixels keeps the image's 2x2 grid)
+ */
+export function alignRect(rect: ImageRegion, step: number): ImageRegion {
+  const x = Math.floor(rect.x / step) * step;
+  const y = Math.floor(rect.y / step) * step;
+  return { x, y, width: rect.width + rect.x - x, height: rect.height + rect.y - y };
+}
+
+/**
+ * Split a rectangle into a grid of near-equal tiles, none wider or
+ * taller than size
+ */
+export function layoutTiles(region: ImageRegion, size: number): ImageRegion[] {
+  const columns = Math.ceil(region.width / size);
+  const rows = Math.ceil(region.height / size);
+  const tiles: ImageRegion[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    const y0 = region.y + Math.round((row * region.height) / rows);
+    const y1 = region.y + Math.round(((row + 1) * region.height) / rows);
+
+    for (let column = 0; column < columns; column++) {
+      const x0 = region.x + Math.round((column * region.width) / columns);
+      const x1 = region.x + Math.round(((column + 1) * region.width) / columns);
+      tiles.push({ x: x0, y: y0, width: x1 - x0, height: y1 - y0 });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Largest tiles covering a region whose crops fit a pixel budget
+ *
+ * Tiles start at maxSize (or the region's size) and shrink by a quarter
+ * until the largest crop fits, but never below minSize.
+ *
+ * @param region - Region to cover
+ * @param cropOf - Crop a tile is computed on (the tile plus its margin)
+ * @param maxCropPixels - Pixel budget of one crop
+ * @param minSize - Smallest tile side
+ * @param maxSize - Largest tile side (default: the region's size)
+ * @returns Tiles and their side
+ */
+export function planTiles(
+  region: ImageRegion,
+  cropOf: (tile: ImageRegion) => ImageRegion,
+  maxCropPixels: number,
+  minSize: number,
+  maxSize: number = Infinity
+): { tiles: ImageRegion[]; size: number } {
+  let size = Math.max(1, Math.min(maxSize, Math.max(region.width, region.height)));
+  let tiles = layoutTiles(region, size);
+
+  while (size > minSize && getLargestCrop(tiles, cropOf) > maxCropPixels) {
+    size = Math.max(minSize, Math.floor(size * 0.75));
+    tiles = layoutTiles(region, size);
+  }
+
+  return { tiles, size };
+}
+
+/**
+ * Pixel count of the largest crop among tiles
+ */
+export function getLargestCrop(tiles: ImageRegion[], cropOf: (tile: ImageRegion) => ImageRegion): number {
+  return tiles.reduce((largest, tile) => {
+    const crop = cropOf(tile);
+    return Math.max(largest, crop.width * crop.height);
+  }, 0);
+}
@@ -0,0 +1,347 @@
+/**
+ * Asynchronous, Web Worker backed shadow generation
+ */
+
+import type { ImageSet, PixelBuffer, Scene, ShadowConfig, ShadowResult, ShadowProgress } from '../core/types';
+import type {
+  GenerateRequest,
+  GenerateSceneRequest,
+  SessionGenerateRequest,
+  SessionImage,
+  WorkerRequest,
+  WorkerResponse
+} from './protocol';
+import { toTransferable } from './protocol';
+
+/**
+ * Options for a single asynchronous generate() / generateScene() call
+ */
+export interface WorkerGenerateOptions {
+  /** Called for every pipeline step and for blur progress within step 7 */
+  onProgress?: (progress: ShadowProgress) => void;
+
+  /** Aborting terminates the running worker and rejects with an AbortError */
+  signal?: AbortSignal;
+
+  /**
+   * Hand the ImageSet (or Scene) pixel buffers to the worker without copying.
+   * The caller's pixel buffers are detached (unusable) afterwards.
+   * Default: false (buffers are copied, then the copies are transferred)
+   */
+  transfer?: boolean;
+}
+
+/**
+ * Constructor options for WorkerShadowGenerator
+ */
+export interface WorkerShadowGeneratorOptions {
+  /** Custom worker factory (e.g. when the bundler needs a specific URL) */
+  createWorker?: () => Worker;
+
+  /**
+   * Run generate() through a ShadowSession kept in the worker: each
+   * input image is sent once and kept there, and calls that only change
+   * the lights skip the light-independent stages. Images are matched by
+   * identity, so pass the same objects again and do not modify them in
+   * place. Aborting a call terminates the worker and drops the cache;
+   * images sent with transfer: true are lost with it, and calls passing
+   * them again reject (pass new copies instead).
+   * Default: false
+   */
+  session?: boolean;
+}
+
+interface PendingJob {
+  resolve: (result: ShadowResult) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: ShadowProgress) => void;
+}
+
+/**
+ * WorkerShadowGenerator - Runs ShadowGenerator.generate / generateScene
+ * in a Web Worker
+ *
+ * - Keeps the main thread responsive during the (synchronous) pipeline
+ * - Transfers pixel buffers instead of structured-cloning them
+ * - Forwards per-step progress events
+ * - Cancels via AbortSignal: the synchronous pipeline cannot be
+ *   interrupted from inside, so the worker is terminated and a fresh one
+ *   is created for the next call
+ * - Optionally keeps a ShadowSession in the worker (options.session) for
+ *   fast re-renders while only the lights change
+ */
+export class WorkerShadowGenerator {
+  private worker: Worker | null = null;
+  private nextId: number = 1;
+  private pending = new Map<number, PendingJob>();
+  private createWorker: () => Worker;
+  private session: boolean;
+
+  // Session mode: ids of the caller's images, and which ones the worker holds
+  private imageIds = new WeakMap<PixelBuffer, number>();
+  private nextImageId: number = 1;
+  private heldImages = new Set<number>();
+
+  constructor(options: WorkerShadowGeneratorOptions = {}) {
+    this.createWorker = options.createWorker ?? (() =>
+      new Worker(new URL('./shadow.worker.ts', import.meta.url), { type: 'module' })
+    );
+    this.session = options.session ?? false;
+  }
+
+  /**
+   * Generate shadow outputs in the worker
+   *
+   * @param images - Input images (foreground, background, optional depth map)
+   * @param config - Shadow configuration
+   * @param options - Progress callback, abort signal, transfer mode
+   * @returns Promise resolving to ShadowResult
+   */
+  generate(
+    images: ImageSet,
+    config: ShadowConfig,
+    options: WorkerGenerateOptions = {}
+  ): Promise<ShadowResult> {
+    if (this.session) {
+      return this.generateInSession(images, config, options);
+    }
+
+    const transfer = options.transfer ?? false;
+
+    const foreground = toTransferable(images.foreground, !transfer);
+    const background = toTransferable(images.background, !transfer);
+    const depthMap = images.depthMap ? toTransferable(images.depthMap, !transfer) : undefined;
+
+    const request: Omit<GenerateRequest, 'id'> = {
+      type: 'generate',
+      foreground,
+      background,
+      depthMap,
+      foregroundTransform: images.foregroundTransform,
+      config
+    };
+
+    // The same buffer may back several inputs; list each one only once
+    const buffers = new Set<ArrayBuffer>();
+    for (const image of [foreground, background, depthMap]) {
+      if (image) buffers.add(image.data.buffer);
+    }
+
+    return this.run(request, [...buffers], options);
+  }
+
+  /**
+   * generate() through the worker's session: images the worker already
+   * holds are sent by id only
+   */
+  private generateInSession(
+    images: ImageSet,
+    config: ShadowConfig,
+    options: WorkerGenerateOptions
+  ): Promise<ShadowResult> {
+    if (options.signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    const transfer = options.transfer ?? false;
+    const buffers = new Set<ArrayBuffer>();
+    const sent = new Set<number>();
+
+    const toSessionImage = (image: PixelBuffer): SessionImage => {
+      let id = this.imageIds.get(image);
+      if (id === undefined) {
+        id = this.nextImageId++;
+        this.imageIds.set(image, id);
+      }
+
+      // Held from the previous call, or already listed in this one
+      const held = this.heldImages.has(id) || sent.has(id);
+      sent.add(id);
+      if (held) return { id };
+
+      // Transferred earlier, and the worker holding it is gone (aborted)
+      if (image.data.length < image.width * image.height * 4) {
+        throw new Error(
+          'Image was transferred to a worker that has since been terminated (e.g. by an abort); ' +
+            'pass a new copy of it'
+        );
+      }
+
+      const transferable = toTransferable(image, !transfer);
+      buffers.add(transferable.data.buffer);
+      return { id, image: transferable };
+    };
+
+    let request: Omit<SessionGenerateRequest, 'id'>;
+    try {
+      request = {
+        type: 'sessionGenerate',
+        foreground: toSessionImage(images.foreground),
+        background: toSessionImage(images.background),
+        depthMap: images.depthMap && toSessionImage(images.depthMap),
+        foregroundTransform: images.foregroundTransform,
+        config
+      };
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    // The worker keeps exactly this request's images
+    this.heldImages = sent;
+
+    return this.run(request, [...buffers], options);
+  }
+
+  /**
+   * Generate shadows for a multi-subject scene in the worker
+   *
+   * @param scene - Background, optional depth map and subjects (back to front)
+   * @param config - Shadow configuration
+   * @param options - Progress callback, abort signal, transfer mode
+   * @returns Promise resolving to ShadowResult (with receivedShadows)
+   */
+  generateScene(
+    scene: Scene,
+    config: ShadowConfig,
+    options: WorkerGenerateOptions = {}
+  ): Promise<ShadowResult> {
+    const transfer = options.transfer ?? false;
+
+    const background = toTransferable(scene.background, !transfer);
+    const depthMap = scene.depthMap ? toTransferable(scene.depthMap, !transfer) : undefined;
+    const subjects = scene.subjects.map((subject) => ({
+      ...subject,
+      image: toTransferable(subject.image, !transfer)
+    }));
+
+    const request: Omit<GenerateSceneRequest, 'id'> = {
+      type: 'generateScene',
+      background,
+      depthMap,
+      subjects,
+      config
+    };
+
+    // The same buffer may back several inputs; list each one only once
+    const buffers = new Set<ArrayBuffer>();
+    for (const image of [background, depthMap, ...subjects.map((subject) => subject.image)]) {
+      if (image) buffers.add(image.data.buffer);
+    }
+
+    return this.run(request, [...buffers], options);
+  }
+
+  /**
+   * Post a request and settle the promise with its result
+   */
+  private run(
+    request:
+      | Omit<GenerateRequest, 'id'>
+      | Omit<SessionGenerateRequest, 'id'>
+      | Omit<GenerateSceneRequest, 'id'>,
+    buffers: ArrayBuffer[],
+    options: WorkerGenerateOptions
+  ): Promise<ShadowResult> {
+    const { signal, onProgress } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    const id = this.nextId++;
+    const worker = this.getWorker();
+
+    return new Promise<ShadowResult>((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        this.terminate();
+        reject(createAbortError());
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress
+      });
+
+      worker.postMessage({ ...request, id } as WorkerRequest, buffers);
+    });
+  }
+
+  /**
+   * Terminate the worker
+   * Any in-flight jobs are rejected; the next generate() starts a new worker
+   */
+  terminate(): void {
+    if (!this.worker) return;
+
+    this.worker.terminate();
+    this.worker = null;
+    this.heldImages.clear();
+
+    for (const job of this.pending.values()) {
+      job.reject(createAbortError());
+    }
+    this.pending.clear();
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = this.createWorker();
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      const error = new Error(`Shadow worker failed: ${event.message}`);
+      for (const job of this.pending.values()) {
+        job.reject(error);
+      }
+      this.pending.clear();
+      this.worker?.terminate();
+      this.worker = null;
+      this.heldImages.clear();
+    };
+
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleMessage(message: WorkerResponse): void {
+    const job = this.pending.get(message.id);
+    if (!job) return; // Aborted job; late messages are dropped
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.progress);
+        break;
+      case 'result':
+        this.pending.delete(message.id);
+        job.resolve({
+          shadowOnly: message.shadowOnly,
+          maskDebug: message.maskDebug,
+          composite: message.composite,
+          ...(message.lightLayers ? { lightLayers: message.lightLayers } : {}),
+          ...(message.contactLayer ? { contactLayer: message.contactLayer } : {}),
+          ...(message.receivedShadows ? { receivedShadows: message.receivedShadows } : {}),
+          ...(message.linear ? { linear: message.linear } : {}),
+          ...(message.region ? { region: message.region } : {})
+        });
+        break;
+      case 'error':
+        this.pending.delete(message.id);
+        job.reject(new Error(message.message));
+        break;
+    }
+  }
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Shadow generation was aborted', 'AbortError');
+}
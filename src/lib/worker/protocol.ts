@@ -0,0 +1,113 @@
+/**
+ * Message protocol between WorkerShadowGenerator and the shadow worker
+ */
+
+import type {
+  ForegroundTransform,
+  ImageRegion,
+  LinearShadowResult,
+  PixelBuffer,
+  SceneSubject,
+  ShadowConfig,
+  ShadowProgress
+} from '../core/types';
+
+/**
+ * Pixel buffer backed by a (transferable) ArrayBuffer
+ */
+export interface TransferableImage extends PixelBuffer {
+  data: Uint8ClampedArray<ArrayBuffer>;
+}
+
+/**
+ * Main thread → worker: run one generate() call
+ */
+export interface GenerateRequest {
+  type: 'generate';
+  id: number;
+  foreground: TransferableImage;
+  background: TransferableImage;
+  depthMap?: TransferableImage;
+  foregroundTransform?: ForegroundTransform;
+  config: ShadowConfig;
+}
+
+/**
+ * Input image of a session request: sent once, then referred to by id
+ */
+export interface SessionImage {
+  id: number;
+  /** Omitted when the worker already holds the image */
+  image?: TransferableImage;
+}
+
+/**
+ * Main thread → worker: run one generate() call through the worker's
+ * ShadowSession
+ */
+export interface SessionGenerateRequest {
+  type: 'sessionGenerate';
+  id: number;
+  foreground: SessionImage;
+  background: SessionImage;
+  depthMap?: SessionImage;
+  foregroundTransform?: ForegroundTransform;
+  config: ShadowConfig;
+}
+
+/**
+ * Main thread → worker: run one generateScene() call
+ */
+export interface GenerateSceneRequest {
+  type: 'generateScene';
+  id: number;
+  background: TransferableImage;
+  depthMap?: TransferableImage;
+  subjects: Array<SceneSubject & { image: TransferableImage }>;
+  config: ShadowConfig;
+}
+
+/**
+ * Main thread → worker messages
+ */
+export type WorkerRequest = GenerateRequest | SessionGenerateRequest | GenerateSceneRequest;
+
+/**
+ * Worker → main thread messages
+ */
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: ShadowProgress }
+  | {
+      type: 'result';
+      id: number;
+      shadowOnly: TransferableImage;
+      maskDebug: TransferableImage;
+      composite: TransferableImage;
+      lightLayers?: TransferableImage[];
+      contactLayer?: TransferableImage;
+      receivedShadows?: TransferableImage[];
+      linear?: LinearShadowResult;
+      region?: ImageRegion;
+    }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Convert a pixel buffer to a plain transferable object
+ * (ImageData is cloneable, but its buffer is only transferred reliably
+ * when sent as a plain object)
+ *
+ * @param image - Source image
+ * @param copy - Copy the pixel buffer instead of handing over the original
+ */
+export function toTransferable(
+  image: PixelBuffer,
+  copy: boolean
+): TransferableImage {
+  return {
+    width: image.width,
+    height: image.height,
+    data: copy
+      ? new Uint8ClampedArray(image.data)
+      : (image.data as Uint8ClampedArray<ArrayBuffer>)
+  };
+}
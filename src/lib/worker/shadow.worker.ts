@@ -0,0 +1,146 @@
+/**
+ * Web Worker entry point running the shadow pipeline off the main thread
+ */
+
+import { ShadowGenerator } from '../core/ShadowGenerator';
+import { ShadowSession } from '../core/ShadowSession';
+import type { ImageSet, PixelBuffer, ShadowProgress, ShadowResult } from '../core/types';
+import type { SessionGenerateRequest, SessionImage, WorkerRequest, WorkerResponse } from './protocol';
+import { toTransferable } from './protocol';
+
+const generator = new ShadowGenerator();
+
+// Session requests: the cache, and the images of the latest request it is keyed on
+const session = new ShadowSession();
+let sessionImages = new Map<number, PixelBuffer>();
+
+function post(message: WorkerResponse, transfer: Transferable[] = []): void {
+  (self as unknown as Worker).postMessage(message, transfer);
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type !== 'generate' && request.type !== 'sessionGenerate' && request.type !== 'generateScene') {
+    return;
+  }
+
+  const options = {
+    onProgress: (progress: ShadowProgress) => post({ type: 'progress', id: request.id, progress })
+  };
+
+  try {
+    let result: ShadowResult;
+    if (request.type === 'generateScene') {
+      result = generator.generateScene(
+        {
+          background: request.background,
+          depthMap: request.depthMap,
+          subjects: request.subjects
+        },
+        request.config,
+        options
+      );
+    } else if (request.type === 'sessionGenerate') {
+      result = generator.generate(resolveSessionImages(request), request.config, { ...options, session });
+    } else {
+      result = generator.generate(
+        {
+          foreground: request.foreground,
+          background: request.background,
+          depthMap: request.depthMap,
+          foregroundTransform: request.foregroundTransform
+        },
+        request.config,
+        options
+      );
+    }
+
+    postResult(request.id, result);
+  } catch (error) {
+    post({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+/**
+ * Input images of a session request: the ones sent with it, the others
+ * kept from the previous request (only this request's images are kept)
+ */
+function resolveSessionImages(request: SessionGenerateRequest): ImageSet {
+  const held = new Map<number, PixelBuffer>();
+  const resolve = (entry: SessionImage): PixelBuffer => {
+    const image = entry.image ?? held.get(entry.id) ?? sessionImages.get(entry.id);
+    if (!image) {
+      throw new Error(`Session image ${entry.id} is not held by the worker`);
+    }
+    held.set(entry.id, image);
+    return image;
+  };
+
+  const images: ImageSet = {
+    foreground: resolve(request.foreground),
+    background: resolve(request.background),
+    depthMap: request.depthMap && resolve(request.depthMap),
+    foregroundTransform: request.foregroundTransform
+  };
+
+  sessionImages = held;
+  return images;
+}
+
+/**
+ * Send a result back, transferring every output buffer
+ */
+function postResult(id: number, result: ShadowResult): void {
+  const shadowOnly = toTransferable(result.shadowOnly, false);
+  const maskDebug = toTransferable(result.maskDebug, false);
+  const composite = toTransferable(result.composite, false);
+  const lightLayers = result.lightLayers?.map((layer) => toTransferable(layer, false));
+  const contactLayer = result.contactLayer && toTransferable(result.contactLayer, false);
+  const receivedShadows = result.receivedShadows?.map((layer) => toTransferable(layer, false));
+
+  const linear = result.linear;
+
+  // With a single light, shadowOnly and lightLayers[0] share one buffer
+  const buffers = new Set<ArrayBuffer>();
+  for (const image of [
+    shadowOnly,
+    maskDebug,
+    composite,
+    ...(lightLayers ?? []),
+    ...(contactLayer ? [contactLayer] : []),
+    ...(receivedShadows ?? [])
+  ]) {
+    buffers.add(image.data.buffer);
+  }
+  if (linear) {
+    for (const image of [
+      linear.shadowOnly,
+      linear.composite,
+      ...(linear.lightLayers ?? []),
+      ...(linear.contactLayer ? [linear.contactLayer] : []),
+      ...(linear.receivedShadows ?? [])
+    ]) {
+      buffers.add(image.data.buffer as ArrayBuffer);
+    }
+  }
+
+  post(
+    {
+      type: 'result',
+      id,
+      shadowOnly,
+      maskDebug,
+      composite,
+      lightLayers,
+      contactLayer,
+      receivedShadows,
+      linear,
+      region: result.region
+    },
+    [...buffers]
+  );
+}
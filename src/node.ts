@@ -0,0 +1,70 @@
+/**
+ * Realistic Shadow Generator - Node.js entry point
+ *
+ * Same pipeline as the browser entry, without DOM-only modules
+ * (BackgroundRemover, DepthEstimator, WorkerShadowGenerator), plus PNG file I/O.
+ */
+
+// Main shadow generator
+export { ShadowGenerator } from './lib/core/ShadowGenerator';
+export { ShadowSession } from './lib/core/ShadowSession';
+
+// Headless image I/O
+export { NodeImageProcessor } from './lib/node/NodeImageProcessor';
+
+// Core types
+export type {
+  PixelBuffer,
+  FloatPixelBuffer,
+  ShadowConfig,
+  DistanceMode,
+  DepthNear,
+  BlendMode,
+  LightSource,
+  DirectionalLight,
+  PointLight,
+  SpotCone,
+  ContactShadowConfig,
+  WorkingResolution,
+  TilingConfig,
+  ImageRegion,
+  GroundPlaneConfig,
+  ImageSet,
+  ForegroundTransform,
+  Scene,
+  SceneSubject,
+  LightVector,
+  LightEstimate,
+  RGBColor,
+  ShadowResult,
+  LinearShadowResult,
+  ContactLine,
+  ContactSegment,
+  DistanceMap,
+  ShadowProgress,
+  GenerateOptions
+} from './lib/core/types';
+
+// Individual algorithm modules (for advanced users)
+export { SilhouetteExtractor } from './lib/algorithms/SilhouetteExtractor';
+export { LightVectorCalculator } from './lib/algorithms/LightVectorCalculator';
+export { LightEstimator } from './lib/algorithms/LightEstimator';
+export { ContactLineDetector } from './lib/algorithms/ContactLineDetector';
+export { ContactOcclusion } from './lib/algorithms/ContactOcclusion';
+export { InterSubjectShadow } from './lib/algorithms/InterSubjectShadow';
+export { GuidedUpsampler } from './lib/algorithms/GuidedUpsampler';
+export { ShadowReach } from './lib/algorithms/ShadowReach';
+export { DistanceTransform } from './lib/algorithms/DistanceTransform';
+export { ShadowProjector } from './lib/algorithms/ShadowProjector';
+export { GroundPlane } from './lib/algorithms/GroundPlane';
+export { HeightField } from './lib/algorithms/HeightField';
+export { BlurEngine } from './lib/algorithms/BlurEngine';
+export { ShadowCompositor } from './lib/compositing/ShadowCompositor';
+
+// Utility functions
+export * from './lib/utils/math';
+export * from './lib/utils/imageData';
+export * from './lib/utils/color';
+export * from './lib/utils/homography';
+export * from './lib/utils/placement';
+export * from './lib/utils/region';
@@ -0,0 +1,28 @@
+import { defineConfig } from 'vite';
+import { resolve } from 'path';
+
+// Node.js build: headless library entry + shadowgen CLI
+export default defineConfig({
+  build: {
+    ssr: true,
+    target: 'node18',
+    outDir: 'dist/node',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        node: resolve(__dirname, 'src/node.ts'),
+        shadowgen: resolve(__dirname, 'src/cli/shadowgen.ts')
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+        banner: (chunk) => (chunk.name === 'shadowgen' ? '#!/usr/bin/env node' : '')
+      }
+    }
+  },
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, './src')
+    }
+  }
+});